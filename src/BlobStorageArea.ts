@@ -1,17 +1,47 @@
 import type {
+  BackendInterface,
   BlobStorageConfigInterface,
   BlobStorageAreaInterface,
+  CodecInterface,
+  EncryptionMetaValues,
+  KeyIndexValues,
+  KeyTimesValues,
+  KeyTimestampValues,
   MetaValues,
+  SerializerInterface,
+  SetOptionsInterface,
+  SlotEncodingInterface,
+  SnapshotInfoValues,
+  StorageChangedEventInterface,
+  StorageLimitsInterface,
 } from "./types";
 
 import StorageArea = chrome.storage.StorageArea;
+import StorageChange = chrome.storage.StorageChange;
 import { TooLargeDataError } from "./errors/TooLargeDataError";
 import { ZippingError } from "./errors/ZippingError";
+import { CorruptedDataError } from "./errors/CorruptedDataError";
+import { InvalidConfigError } from "./errors/InvalidConfigError";
+import { DecryptionError } from "./errors/DecryptionError";
+import { SchemaVersionError } from "./errors/SchemaVersionError";
+import { FormatVersionError } from "./errors/FormatVersionError";
+import { ConflictError } from "./errors/ConflictError";
+import { SnapshotNotFoundError } from "./errors/SnapshotNotFoundError";
+import { Encryption } from "./Encryption";
+import { NamespaceRegistry } from "./NamespaceRegistry";
+import { StorageLock } from "./StorageLock";
+import { SnapshotHistory } from "./SnapshotHistory";
+import { CompositeStorageArea } from "./CompositeStorageArea";
 import { LastCompressStates, StorageStates } from "./enums";
 import { DummyStorageArea } from "./DummyStorageArea";
-import { Blob, Buffer } from "buffer";
-import { deflate, unzip } from "node:zlib";
-import { createHash } from "crypto";
+import { StorageChangedEvent } from "./StorageChangedEvent";
+import { createBackend } from "./backends/createBackend";
+import { RawEncoding } from "./encodings/RawEncoding";
+import { Base64Encoding } from "./encodings/Base64Encoding";
+import { Base32768Encoding } from "./encodings/Base32768Encoding";
+import { JsonSerializer } from "./serializers/JsonSerializer";
+import { TaggedSerializer } from "./serializers/TaggedSerializer";
+import { MessagePackSerializer } from "./serializers/MessagePackSerializer";
 
 /**
  * Configuration helper function.
@@ -22,20 +52,75 @@ import { createHash } from "crypto";
  * @param {StorageArea} config_override.storage [StorageArea = undefined] Object implementing StoragArea interface, defaults to new instance DummyStorage().
  *   @see StorageArea @see DummyStorage
  * @param {boolean} config_override.compress [boolean = false] If should data be comporessed or not.
+ * @param {string|CodecInterface} config_override.codec [string = "deflate"] Compression codec, one of "deflate", "gzip", "brotli", "none" or custom codec object.
+ *   @see CodecInterface
+ * @param {string} config_override.slotEncoding [string = "auto"] How data are turned into text in slots, one of "raw", "base64", "base32768" or "auto".
+ * @param {string} config_override.slotUnit [string = "utf8"] How storage measures slotSize, "utf8" in bytes like chrome.storage, or "utf16" in code units like localStorage.
+ * @param {string|Object} config_override.serializer [string = "json"] Serializer of stored document, "tagged" or "msgpack" keep Date, Map, Set, binary data and BigInt. Custom one can be given too.
+ *   @see SerializerInterface
+ *   @see SlotEncodingInterface
+ * @param {Object} config_override.limits [Object = undefined] Limits of storage, by default read from storage itself (e.g. chrome.storage.sync constants).
+ *   @see StorageLimitsInterface
+ * @param {boolean} config_override.autoSlots [boolean = false] If slotSize and slotCount should be derived from limits.
+ * @param {Object} config_override.encryption [Object = undefined] Key or passphrase to encrypt stored data with AES-GCM.
+ *   @see EncryptionConfigInterface
+ * @param {string} config_override.namespace [string = undefined] Prefix of all keys, so more blob storages can share one StorageArea.
+ * @param {number} config_override.sharedQuota [number = undefined] Quota shared by all namespaces, defaults to QUOTA_BYTES of storage limits.
+ *   @see NamespaceRegistry
+ * @param {Array} config_override.migrations [Array = []] Migration at index N upgrades stored document from schema version N to N + 1.
+ * @param {number} config_override.conflictRetries [number = 3] How many times set() or remove() merge again when other context wrote in between.
+ * @param {boolean} config_override.lock [boolean = false] If writes should hold lease based lock, so contexts never write at the same time.
+ * @param {number} config_override.lockLease [number = 5000] Milliseconds after which lock of crashed context expires.
+ * @param {number} config_override.batchDelay [number = 0] Milliseconds set() waits for more items to write them at once, 0 writes right away.
+ * @param {number} config_override.batchMaxDelay [number = 1000] Milliseconds batched items wait at most since first set().
+ * @param {boolean} config_override.keyIndex [boolean = false] If meta should index keys of uncompressed raw data, so single keys are read from their slots only.
+ * @param {string} config_override.eviction [string = "none"] Which keys set() evicts when data don't fit, one of "lru", "priority", "oldest" or "none" to throw TooLargeDataError.
+ * @param {Object} config_override.priorities [Object = {}] Priority of keys for "priority" eviction, lower ones are evicted first, default is 0.
+ * @param {Array} config_override.protectedKeys [Array = []] Keys which are never evicted.
+ * @param {Function} config_override.onEvict [Function = undefined] Called with keys evicted by set().
+ * @param {number} config_override.snapshots [number = 0] How many previous documents are kept to be restored, 0 keeps none.
+ * @param {StorageArea} config_override.snapshotStorage [StorageArea = undefined] Storage of snapshots, e.g. chrome.storage.local, needed when snapshots are kept.
+ * @param {string} config_override.backend [string = "auto"] Implementation of hashing and compression, "node", "browser" or "auto" to select by environment.
  * @param {boolean} config_override.debugLog - [boolean = false] If should helper info be logged in console.
  * @param {boolean} config_override.disableDummyWarning [boolean = true] If should shout warning when using DummyStorage.
  * @param {boolean} config_override.id [string = undefined] Identificator of storage for debug purposes.
  *   @see DummyStorage().
+ * @param {boolean} config_override.fallbackToCache [boolean = false] If get() should return local cache when stored data are corrupted.
+ *   @see CorruptedDataError
  */
 function BlobStorageConfig(configOverride = {}): BlobStorageConfigInterface {
-  const _default = {
+  const _default: BlobStorageConfigInterface = {
     slotCount: 256,
     slotSize: 1024,
     storage: undefined,
     compress: false,
+    codec: "deflate",
+    backend: "auto",
+    slotEncoding: "auto",
+    slotUnit: "utf8",
+    serializer: "json",
+    limits: undefined,
+    autoSlots: false,
+    encryption: undefined,
+    namespace: undefined,
+    sharedQuota: undefined,
+    migrations: [],
+    conflictRetries: 3,
+    lock: false,
+    lockLease: 5000,
+    batchDelay: 0,
+    batchMaxDelay: 1000,
+    keyIndex: false,
+    eviction: "none",
+    priorities: {},
+    protectedKeys: [],
+    onEvict: undefined,
+    snapshots: 0,
+    snapshotStorage: undefined,
     debugLog: false,
     disableDummyWarning: false,
     id: undefined,
+    fallbackToCache: false,
   };
 
   return { ..._default, ...configOverride };
@@ -48,12 +133,36 @@ class BlobStorageArea implements BlobStorageAreaInterface {
   protected config: BlobStorageConfigInterface;
   protected keyMeta = "__storage_meta";
   protected keyPrefix = "__storage_stack_";
+  // Layout written by this code, legacy layouts are upgraded to it.
+  protected readonly formatVersion = 2;
+  // Hex characters of hash kept for every slot in meta.
+  protected readonly slotHashLength = 8;
+  // Characters of token which every write puts into keys of its slots.
+  protected readonly slotTokenLength = 6;
   // Basically a local copy of Meta values, that are also in storage.
   protected meta: MetaValues;
   protected localData = new Map();
+  // When keys were read, stored with next write for LRU eviction.
+  protected accessed = new Map<string, number>();
   protected storage: StorageArea;
+  protected backend!: BackendInterface;
+  protected encryption: Encryption | null = null;
+  protected lock: StorageLock | null = null;
+  protected history: SnapshotHistory | null = null;
   protected occupiedStorage = 0;
   protected state = StorageStates.Idle;
+  // Tail of queue of get/set/remove/clear operations, which run one by one.
+  protected queue: Promise<void> = Promise.resolve();
+  protected pending = 0;
+  // Items set in batched mode, waiting for one combined write.
+  protected batch: { [key: string]: any } = {};
+  protected batchExpiry: { [key: string]: number | null } = {};
+  protected batchWrite: Promise<void> | null = null;
+  protected batchSettle: { resolve(): void; reject(error: any): void } | null =
+    null;
+  protected batchStarted = 0;
+  protected batchTimer: ReturnType<typeof setTimeout> | undefined;
+  readonly onChanged = new StorageChangedEvent();
 
   /**
    * Private constructor which sets config.
@@ -70,30 +179,40 @@ class BlobStorageArea implements BlobStorageAreaInterface {
       hashPreCompress: null,
       lastUpdated: null,
       lastCompressState: LastCompressStates.Uncomporessed,
+      codec: null,
+      slotHashes: [],
+      slotTokens: [],
+      formatVersion: this.formatVersion,
     };
 
+    let keyLock = "__storage_lock";
+    if (config.namespace) {
+      this.keyMeta = config.namespace + ":" + this.keyMeta;
+      this.keyPrefix = config.namespace + ":" + this.keyPrefix;
+      keyLock = config.namespace + ":" + keyLock;
+    }
+
+    if (config.encryption) {
+      this.encryption = new Encryption(config.encryption);
+    }
+
     if (!config.storage) {
       // Default into dummy storage.
       this.storage = new DummyStorageArea(config.disableDummyWarning);
     } else {
       this.storage = config.storage;
     }
-  }
 
-  // TODO later.
-  getBytesInUse(callback: (bytesInUse: number) => void): void;
-  getBytesInUse(keys?: string | string[] | null): Promise<number>;
-  getBytesInUse(
-    keys: string | string[] | null,
-    callback: (bytesInUse: number) => void
-  ): void;
-  getBytesInUse(keys?: any, callback?: any): void | Promise<number> {
-    throw new Error("Method not implemented.");
-  }
-  remove(keys: string | string[]): Promise<void>;
-  remove(keys: string | string[], callback?: () => void): void;
-  remove(keys: any, callback?: any): void | Promise<void> {
-    throw new Error("Method not implemented.");
+    if (config.lock) {
+      this.lock = new StorageLock(this.storage, keyLock, config.lockLease);
+    }
+    if (config.snapshots > 0 && config.snapshotStorage) {
+      this.history = new SnapshotHistory(
+        config.snapshotStorage,
+        config.snapshots,
+        config.namespace
+      );
+    }
   }
 
   /**
@@ -108,9 +227,19 @@ class BlobStorageArea implements BlobStorageAreaInterface {
     config: BlobStorageConfigInterface = BlobStorageConfig()
   ): Promise<BlobStorageArea> {
     const blobStorage = new BlobStorageArea(config);
+    blobStorage.backend = await createBackend(config.backend);
+    if (config.autoSlots) {
+      await blobStorage.configureSlots();
+    }
+    await blobStorage.validateConfig();
+    await blobStorage.registerNamespace();
 
     // Init meta.
     await blobStorage.initStorageMeta();
+    await blobStorage.migrate();
+
+    // Notice changes made by other contexts.
+    blobStorage.listenToStorage();
 
     // Pre-compute occupied storage if there already is data.
     blobStorage.occupiedStorage = await blobStorage.getCurrentUsed(true);
@@ -122,15 +251,55 @@ class BlobStorageArea implements BlobStorageAreaInterface {
    * Returns maximum storage capacity based on configuration.
    *
    * It's asynchronous because in future it might communicate with internal storage.
+   * This is effective capacity, so it takes slot encoding overhead into account.
+   *
+   * It's upper bound. When limits are known, slots are measured escaped in
+   * JSON as storage measures them, so quotes, backslashes and control
+   * characters of raw text take more than one byte each.
    *
    * @returns Number of maximum capacity of storage in bytes.
    */
   async getMaxCapacity(): Promise<number> {
     return new Promise<number>((resolve) => {
-      resolve(this.config.slotCount * this.config.slotSize);
+      resolve(
+        this.getConfiguredSlotEncoding().getCapacity(
+          this.config.slotSize,
+          this.config.slotCount,
+          this.config.slotUnit
+        )
+      );
     });
   }
 
+  /**
+   * Checks if document would fit into slots, without writing anything.
+   *
+   * Document is serialized, compressed, encrypted and split into slots
+   * as it would be written.
+   *
+   * @param json Whole document.
+   * @returns True if document fits.
+   */
+  async fits(json: { [key: string]: any }): Promise<boolean> {
+    let data = new Blob([this.getConfiguredSerializer().serialize(json)]);
+    const codec = this.getConfiguredCodec();
+    if (codec) {
+      data = await codec.compress(data);
+    }
+    if (this.encryption) {
+      // Salt of stored data is reused, so key is derived only once.
+      const encrypted = await this.encryption.encrypt(
+        data,
+        this.getMeta().encryption
+      );
+      data = encrypted.data;
+    }
+    const text = this.getConfiguredSlotEncoding().encode(
+      new Uint8Array(await data.arrayBuffer())
+    );
+    return this.splitToSlots(text).length <= this.config.slotCount;
+  }
+
   /**
    * Returns currently used storage capacity.
    *
@@ -142,8 +311,9 @@ class BlobStorageArea implements BlobStorageAreaInterface {
    */
   async getCurrentUsed(live = false): Promise<number> {
     if (live) {
-      const blobs = await this.connectedBlobs();
-      this.occupiedStorage = blobs.size;
+      const meta = (await this.getLiveMeta()) ?? this.getMeta();
+      const data = await this.decodeSlots(await this.getBlobs(meta), meta);
+      this.occupiedStorage = data.size;
     }
     return new Promise<number>((resolve) => resolve(this.occupiedStorage));
   }
@@ -156,18 +326,38 @@ class BlobStorageArea implements BlobStorageAreaInterface {
    * @returns Current state.
    */
   getState() {
+    // Between operations there is nothing active, but more is waiting.
+    if (
+      this.state === StorageStates.Idle &&
+      (this.pending > 0 || this.batchWrite)
+    ) {
+      return StorageStates.Queued;
+    }
     return this.state;
   }
 
+  /**
+   * Writes batched items right away and waits until all queued operations
+   * are done, including ones queued meanwhile.
+   *
+   * @throws Error of batched write, e.g. TooLargeDataError.
+   */
+  async flush(): Promise<void> {
+    const batchWrite = this.batchWrite;
+    this.writeBatch();
+    while (this.pending > 0) {
+      await this.queue;
+    }
+    await batchWrite;
+  }
+
   /**
    * Checks if we are up to date with storage.
    *
    * @returns True if we are up to date, otherwise false.
    */
   async isUpToDate(): Promise<boolean> {
-    const liveMeta: MetaValues = (await this.storage.get(this.keyMeta))[
-      this.keyMeta
-    ];
+    const liveMeta = await this.getLiveMeta();
     this.debugLog(
       "checking up to date",
       "local",
@@ -224,117 +414,260 @@ class BlobStorageArea implements BlobStorageAreaInterface {
     return this.getMeta().lastCompressState;
   }
 
+  /**
+   * Gets id of codec which stored data were compressed with.
+   *
+   * @returns Codec id, or null if data were not compressed.
+   */
+  getLastCodec(): null | string {
+    return this.getMeta().codec ?? null;
+  }
+
+  /**
+   * Returns schema version of stored document.
+   *
+   * @returns Number of migrations applied to stored document.
+   */
+  getSchemaVersion(): number {
+    return this.getMeta().schemaVersion ?? 0;
+  }
+
+  /**
+   * Implements StorageArea::getBytesInUse().
+   *
+   * With null (or no keys) this is size of all slots and meta in storage.
+   * With keys this is serialized size of those keys in stored document,
+   * when data is compressed it's their proportional part of compressed size.
+   */
+  getBytesInUse(callback: (bytesInUse: number) => void): void;
+  getBytesInUse(keys?: string | string[] | null): Promise<number>;
+  getBytesInUse(
+    keys: string | string[] | null,
+    callback: (bytesInUse: number) => void
+  ): void;
+  getBytesInUse(keys?: any, callback?: any): void | Promise<number> {
+    if (typeof keys === "function") {
+      callback = keys;
+      keys = null;
+    }
+    const promise = this.calculateBytesInUse(keys);
+    if (callback) {
+      this.settleCallback(promise, callback);
+      return;
+    }
+    return promise;
+  }
+
   /**
    * Implements StorageArea::get().
+   *
+   * Accepts a key, array of keys, object with defaults for missing keys,
+   * or null for the whole stored document. Missing keys are left out.
    */
-  async get(
+  get(
     items?: string | string[] | { [key: string]: any } | null
   ): Promise<{ [key: string]: any }> {
-    try {
-      const values: { [key: string]: any } = {};
-      this.state = StorageStates.Downloading;
-      const keys = this.argKeysToArray(items);
+    return this.enqueue(async () => {
+      try {
+        this.state = StorageStates.Downloading;
+        const whole = items === undefined || items === null;
+        const keys = whole ? [] : this.argKeysToArray(items);
 
-      // Take into account lastUpdate and use cache.
-      if (await this.isUpToDate()) {
-        for (const key of keys) {
-          values[key] = this.localData.get(key);
+        // Take into account lastUpdate and use cache if it has all keys.
+        let json: { [key: string]: any } = {};
+        let expiry = this.getMeta().expiry;
+        if (
+          !whole &&
+          (await this.isUpToDate()) &&
+          keys.every((key) => this.localData.has(key))
+        ) {
+          for (const key of keys) {
+            json[key] = this.localData.get(key);
+          }
+        }
+        // Or take live data.
+        else {
+          try {
+            // Batched items are not stored yet.
+            const stored = whole
+              ? await this.getStoredData()
+              : await this.getStoredItems(keys);
+            json = { ...stored, ...this.batch };
+            expiry = (await this.getLiveMeta())?.expiry;
+          } catch (error) {
+            if (
+              !(error instanceof CorruptedDataError) ||
+              !this.config.fallbackToCache
+            ) {
+              throw error;
+            }
+            this.debugLog("Data corrupted, using local cache", error.slots);
+            json = this.getLocalData();
+          }
         }
+
+        // Expired keys are hidden until purged.
+        json = this.omitKeys(
+          json,
+          this.getExpired(this.applyExpiry(expiry ?? {}, this.batchExpiry))
+        );
+        const values = whole
+          ? json
+          : this.pickValues(json, keys, this.argDefaults(items));
+        if (this.config.eviction === "lru") {
+          const now = Date.now();
+          for (const key of Object.keys(values)) {
+            if (json.hasOwnProperty(key)) {
+              this.accessed.set(key, now);
+            }
+          }
+        }
+        this.state = StorageStates.Idle;
+        return values;
+      } catch (error) {
+        // Compression or something else might fail.
+        this.state = StorageStates.Idle;
+        throw error;
       }
-      // Or take live data.
-      else {
-        const blobData = await this.getAsBlob();
-        this.debugLog("got blob", await blobData.text());
-        const json = JSON.parse(await blobData.text());
-        for (const key of keys) {
-          values[key] = json[key];
+    });
+  }
+
+  /**
+   * Implements StorageArea::clear().
+   */
+  clear(): Promise<void> {
+    this.writeBatch();
+    return this.enqueue(async () => {
+      const owner = await this.lock?.acquire();
+      try {
+        // Old values are needed only for listeners and snapshot, and clear
+        // should work even when data are corrupted.
+        let oldData: { [key: string]: any } = {};
+        if (this.onChanged.hasListeners() || this.history) {
+          oldData = await this.getStoredData().catch(() => this.getLocalData());
+        }
+
+        await this.takeSnapshot(oldData, await this.getLiveMeta());
+        await this.clearSlots();
+        this.localData.clear();
+        this.accessed.clear();
+        this.dispatchChanges(oldData, {});
+      } finally {
+        if (owner) {
+          await this.lock?.release(owner);
         }
       }
+    });
+  }
 
-      this.state = StorageStates.Idle;
-      return values;
-    } catch (error) {
-      // Compression or something else might fail.
-      this.state = StorageStates.Idle;
-      throw error;
+  /**
+   * Implements StorageArea::remove().
+   */
+  remove(keys: string | string[]): Promise<void>;
+  remove(keys: string | string[], callback?: () => void): void;
+  remove(keys: any, callback?: any): void | Promise<void> {
+    this.writeBatch();
+    const promise = this.enqueue(() =>
+      this.removeKeys(this.argKeysToArray(keys))
+    );
+    if (callback) {
+      this.settleCallback(promise, callback);
+      return;
     }
+    return promise;
   }
 
   /**
-   * Implements StorageArea::clear().
+   * Implements StorageArea::set().
+   *
+   * Items set with TTL expire after given milliseconds, items set without
+   * it never expire. Expired keys are dropped with every write.
    */
-  async clear(): Promise<void> {
-    for (let i = 0; i < this.config.slotCount; i++) {
-      this.storage.remove(this.keyPrefix + i);
+  set(
+    items: { [key: string]: any },
+    options?: SetOptionsInterface
+  ): Promise<void>;
+  set(items: { [key: string]: any }, callback?: () => void): void;
+  set(items: any, options?: any): void | Promise<void> {
+    const callback = typeof options === "function" ? options : undefined;
+    const expires = this.expireItems(items, callback ? undefined : options);
+    const promise =
+      this.config.batchDelay > 0
+        ? this.batchItems(items, expires)
+        : this.enqueue(() => this.setItems(items, expires));
+    if (callback) {
+      this.settleCallback(promise, callback);
+      return;
     }
-    this.occupiedStorage = 0;
-    this.localData.clear();
+    return promise;
   }
 
   /**
-   * Implements StorageArea::set().
+   * Lists snapshots of previous stored documents.
+   *
+   * @returns Snapshots, the newest first.
+   */
+  listSnapshots(): Promise<SnapshotInfoValues[]> {
+    return this.enqueue(async () => {
+      const snapshots = (await this.history?.list()) ?? [];
+      return snapshots
+        .map(({ id, lastUpdated, hash }) => ({ id, lastUpdated, hash }))
+        .reverse();
+    });
+  }
+
+  /**
+   * Replaces stored document with snapshot, like set() would.
+   *
+   * Replaced document is snapshotted too, so restore can be undone.
+   *
+   * @param id Id of snapshot.
+   * @throws SnapshotNotFoundError when snapshot is not in history.
+   */
+  restoreSnapshot(id: number): Promise<void> {
+    this.writeBatch();
+    return this.enqueue(async () => {
+      const json = await this.readSnapshot(id);
+      await this.setItems(json, this.expireItems(json), true);
+    });
+  }
+
+  /**
+   * Merges items into stored document.
+   *
+   * @param items Items to be set.
+   * @param expires Expiry timestamps of items.
+   * @param replace If items should replace whole document.
    */
-  async set(items: { [key: string]: any }): Promise<void> {
+  protected async setItems(
+    items: { [key: string]: any },
+    expires: { [key: string]: number | null },
+    replace = false
+  ): Promise<void> {
     try {
       this.state = StorageStates.Uploading;
 
       // Need to get all previous data before and merge items...
-      const oldData = await this.connectedBlobs();
-      const newJson = { ...oldData, ...items };
-      const precompressedData = new Blob([JSON.stringify(newJson)]);
-
-      // Compress if needed.
-      let data = precompressedData;
-      const preCompressHash = this.calculateHash(
-        await precompressedData.text()
+      const [oldData, newData, evicted] = await this.updateData(
+        (stored, base) => ({
+          ...(replace
+            ? {}
+            : this.omitKeys(stored, this.getExpired(base?.expiry))),
+          ...items,
+        }),
+        (base) => this.touchItems(base, expires),
+        Object.keys(items)
       );
-      if (this.config.compress) {
-        // Compress
-        data = await this.compress(precompressedData);
-      }
-
-      // Check for capacity.
-      const over = data.size - (await this.getMaxCapacity());
-      if (over > 0) {
-        this.state = StorageStates.Idle;
-        throw new TooLargeDataError(over);
-      }
-
-      // Clear it before we set anything.
-      this.clear();
-      await this.setHash(null);
-
-      // Split into parts and save.
-      for (let index = 0; index < this.config.slotCount; index++) {
-        const end = Math.min((index + 1) * this.config.slotSize, data.size);
-        const part = data.slice(index * this.config.slotSize, end);
-        await this.setBlob(index, part);
-        this.occupiedStorage += part.size;
-        if (end === data.size) {
-          break;
-        }
-      }
-
-      // Set hash and states depending on compression.
-      if (this.config.compress) {
-        await this.setPreCompressHash(preCompressHash);
-        this.debugLog("setting precompress hash", this.getPreCompressHash());
-      } else {
-        await this.setPreCompressHash(null);
-        await this.setLastCompress(LastCompressStates.Uncomporessed);
-      }
-
-      // Recalculate hash and set updated.
-      const blob = await this.connectedBlobs();
-      const hash = this.calculateHash(await blob.text());
-      await this.setHash(hash);
-      this.debugLog("setting hash", this.getHash());
-      await this.setLastUpdated();
 
       // All went ok, set to local cache.
+      this.evictMissing(oldData, newData);
       for (const key of Object.keys(items)) {
         this.localData.set(key, items[key]);
       }
+      this.dispatchChanges(oldData, newData);
+      if (evicted.length > 0) {
+        this.config.onEvict?.(evicted);
+      }
 
       this.state = StorageStates.Idle;
     } catch (error) {
@@ -344,14 +677,58 @@ class BlobStorageArea implements BlobStorageAreaInterface {
     }
   }
 
+  /**
+   * Removes expired keys from stored document.
+   *
+   * @returns Keys which were removed.
+   */
+  purgeExpired(): Promise<string[]> {
+    this.writeBatch();
+    return this.enqueue(async () => {
+      const live = await this.getLiveMeta();
+      if (this.getExpired(live?.expiry).length === 0) {
+        return [];
+      }
+      try {
+        this.state = StorageStates.Uploading;
+        let purged: string[] = [];
+        const [oldJson, newJson] = await this.updateData((stored, base) => {
+          purged = this.getExpired(base?.expiry).filter((key) =>
+            stored.hasOwnProperty(key)
+          );
+          return this.omitKeys(stored, purged);
+        });
+        this.evictMissing(oldJson, newJson);
+        this.dispatchChanges(oldJson, newJson);
+        this.state = StorageStates.Idle;
+        return purged;
+      } catch (error) {
+        this.state = StorageStates.Idle;
+        throw error;
+      }
+    });
+  }
+
   /**
    * Calculates hash.
    *
    * @param data String to be hashed
    * @returns Hashed string.
    */
-  calculateHash(data: string): string {
-    return createHash("md5").update(data).digest("hex");
+  async calculateHash(data: string): Promise<string> {
+    return this.backend.hash(data);
+  }
+
+  /**
+   * Calculates short hash of slot, which keeps meta small with many slots.
+   *
+   * Whole data are verified by full hash, this only tells slots apart.
+   *
+   * @param data Text of slot.
+   * @returns Prefix of hash.
+   */
+  protected async calculateSlotHash(data: string): Promise<string> {
+    return (await this.calculateHash(data)).slice(0, this.slotHashLength);
   }
 
   /**
@@ -365,24 +742,213 @@ class BlobStorageArea implements BlobStorageAreaInterface {
 
     // Nothing in storage. Or sync with storage?
     if (!inStorage) {
-      await this.setMeta(this.meta);
+      const { slotSize, slotCount } = this.config;
+      await this.setMeta({ ...this.meta, slotSize, slotCount });
       this.debugLog("Setting very first meta", this.meta);
     } else {
       this.meta = { ...inStorage };
       this.debugLog("Got meta from storage", this.meta);
+      await this.upgradeFormat();
+      await this.resizeSlots();
+    }
+  }
+
+  /**
+   * Rewrites data stored in legacy layout into current layout.
+   *
+   * Legacy layout has no formatVersion, slot keys have no write token
+   * and compressed data are in base64. It stays readable, so when it can't
+   * be read now (e.g. missing key), it's left to be upgraded later.
+   *
+   * @throws FormatVersionError when stored layout is newer than this code.
+   */
+  protected async upgradeFormat(): Promise<void> {
+    const meta = this.getMeta();
+    const storedVersion = meta.formatVersion ?? 1;
+    if (storedVersion > this.formatVersion) {
+      throw new FormatVersionError(storedVersion, this.formatVersion);
+    }
+    if (storedVersion === this.formatVersion) {
+      return;
+    }
+
+    // Nothing is stored, so only meta is marked.
+    if (meta.hash === null) {
+      await this.setMeta({ ...meta, formatVersion: this.formatVersion });
+      return;
+    }
+
+    let data: { [key: string]: any };
+    try {
+      data = await this.getStoredData();
+    } catch (error) {
+      this.debugLog("Can't upgrade format of stored data", error);
+      return;
+    }
+    // Schema stays the same, it's up to migrations.
+    await this.writeData(data, meta.schemaVersion ?? 0);
+    this.debugLog("Upgraded format from version", storedVersion);
+  }
+
+  /**
+   * Re-chunks stored data when slotSize or slotCount has changed.
+   *
+   * Slots which are out of new slotCount are removed.
+   *
+   * @throws TooLargeDataError when stored data don't fit in new slots.
+   */
+  protected async resizeSlots(): Promise<void> {
+    const meta = this.getMeta();
+    const { slotSize, slotCount } = this.config;
+    const oldSlotCount = meta.slotCount ?? slotCount;
+    if (
+      (meta.slotSize ?? slotSize) === slotSize &&
+      oldSlotCount === slotCount
+    ) {
+      return;
+    }
+
+    if (meta.hash === null) {
+      await this.setMeta({ ...meta, slotSize, slotCount });
+    } else {
+      await this.writeData(await this.getStoredData(), meta.schemaVersion ?? 0);
+    }
+
+    // Slots of new layout are replaced by write, legacy ones might be left.
+    const orphanedKeys: string[] = [];
+    for (let i = slotCount; i < oldSlotCount; i++) {
+      orphanedKeys.push(this.slotKey(i));
+    }
+    if (orphanedKeys.length > 0) {
+      await this.storage.remove(orphanedKeys);
+    }
+    this.debugLog("Resized slots from", meta.slotSize, oldSlotCount);
+  }
+
+  /**
+   * Runs migrations which stored document hasn't gone through yet.
+   *
+   * Migrated document is written back once.
+   *
+   * @throws SchemaVersionError when stored document is newer than migrations.
+   */
+  protected async migrate(): Promise<void> {
+    const meta = (await this.getLiveMeta()) ?? this.getMeta();
+    const migrations = this.config.migrations;
+    const storedVersion = meta.schemaVersion ?? 0;
+    // Nothing is stored, so there is nothing to migrate.
+    if (meta.hash === null || storedVersion === migrations.length) {
+      return;
     }
+    if (storedVersion > migrations.length) {
+      throw new SchemaVersionError(storedVersion, migrations.length);
+    }
+
+    let data = await this.getStoredData();
+    for (const migration of migrations.slice(storedVersion)) {
+      data = await migration(data);
+    }
+    await this.writeData(data);
+    this.debugLog("migrated from schema version", storedVersion);
   }
 
-  protected async getAsBlob(): Promise<Blob> {
-    let data = await this.connectedBlobs();
+  protected async getAsBlob(meta?: MetaValues): Promise<Blob> {
+    // Data might have been written by other instance, so follow live meta.
+    meta = meta ?? (await this.getLiveMeta()) ?? this.getMeta();
+    const blobs = await this.getBlobs(meta);
+    await this.verifyBlobs(blobs, meta);
+    let data = await this.decodeSlots(blobs, meta);
+
+    if (data.size > 0 && meta.encryption) {
+      if (!this.encryption) {
+        throw new DecryptionError("Data are encrypted, but no key is set.");
+      }
+      data = await this.encryption.decrypt(data, meta.encryption);
+    }
+
+    if (
+      data.size > 0 &&
+      meta.lastCompressState === LastCompressStates.Compressed
+    ) {
+      // Legacy meta has no codec, but everything was deflated back then.
+      data = await this.decompress(
+        data,
+        this.resolveCodec(meta.codec ?? "deflate")
+      );
 
-    if (this.getLastCompressState() === LastCompressStates.Compressed) {
-      data = await this.decompress(data);
+      // Hash of encrypted data is keyed, these are authenticated anyway.
+      const hash = await this.calculateHash(await data.text());
+      if (
+        !meta.encryption &&
+        this.canVerify(meta) &&
+        meta.hashPreCompress !== null &&
+        hash !== meta.hashPreCompress
+      ) {
+        throw new CorruptedDataError(meta.hashPreCompress, hash, []);
+      }
     }
 
     return data;
   }
 
+  /**
+   * Decodes text of slots into stored (possibly compressed) data.
+   *
+   * @param blobs Content of slots.
+   * @param meta Meta values the slots were read by.
+   * @returns Blob of data.
+   */
+  protected async decodeSlots(blobs: Blob[], meta: MetaValues): Promise<Blob> {
+    const compressed = meta.lastCompressState === LastCompressStates.Compressed;
+    const encoding = this.resolveSlotEncoding(
+      meta.slotEncoding ?? (compressed ? "base64" : "raw")
+    );
+    return new Blob([encoding.decode(await new Blob(blobs).text())]);
+  }
+
+  /**
+   * Checks slots against hashes in meta.
+   *
+   * @param blobs Content of slots.
+   * @param meta Meta values the slots were read by.
+   * @throws CorruptedDataError when hash doesn't match.
+   */
+  protected async verifyBlobs(blobs: Blob[], meta: MetaValues): Promise<void> {
+    // Nothing was stored, so nothing to verify.
+    if (meta.hash === null || !this.canVerify(meta)) {
+      return;
+    }
+
+    const hash = await this.calculateHash(await new Blob(blobs).text());
+    if (hash === meta.hash) {
+      return;
+    }
+
+    // Find out which slots are wrong, if we know their hashes.
+    const slots: number[] = [];
+    for (let i = 0; meta.slotHashes && i < blobs.length; i++) {
+      if (
+        meta.slotHashes[i] !==
+        (await this.calculateSlotHash(await blobs[i].text()))
+      ) {
+        slots.push(i);
+      }
+    }
+    throw new CorruptedDataError(meta.hash, hash, slots);
+  }
+
+  /**
+   * Checks if hashes in meta were made by the same algorithm as ours.
+   *
+   * Data written by other backend are verified after they are rewritten.
+   *
+   * @param meta Meta values.
+   * @returns True if hashes can be compared.
+   */
+  protected canVerify(meta: MetaValues): boolean {
+    return (meta.hashAlgorithm ?? "md5") === this.backend.hashAlgorithm;
+  }
+
   /**
    * Returns meta values.
    *
@@ -394,6 +960,17 @@ class BlobStorageArea implements BlobStorageAreaInterface {
     return this.meta;
   }
 
+  /**
+   * Returns meta values as they are currently in storage.
+   *
+   * These might differ from local meta when other instance wrote into storage.
+   *
+   * @returns Meta values object from storage.
+   */
+  protected async getLiveMeta(): Promise<MetaValues> {
+    return (await this.storage.get(this.keyMeta))[this.keyMeta];
+  }
+
   /**
    * Sets new meta values and pushes them to storage.
    *
@@ -406,87 +983,1360 @@ class BlobStorageArea implements BlobStorageAreaInterface {
     await this.storage.set(json);
   }
 
-  protected async setHash(hash: string | null): Promise<void> {
-    const meta = this.getMeta();
-    meta.hash = hash;
-    await this.setMeta(meta);
-  }
-
-  protected async setPreCompressHash(hash: string | null): Promise<void> {
-    const meta = this.getMeta();
-    meta.hashPreCompress = hash;
-    await this.setMeta(meta);
+  /**
+   * Connects all used slots into one blob.
+   *
+   * @param meta Meta values describing slots, defaults to those in storage.
+   * @returns Blob of stored (possibly compressed) data.
+   */
+  protected async connectedBlobs(meta?: MetaValues): Promise<Blob> {
+    meta = meta ?? (await this.getLiveMeta()) ?? this.getMeta();
+    return new Blob(await this.getBlobs(meta));
   }
 
-  protected async setLastCompress(state: LastCompressStates): Promise<void> {
-    const meta = this.getMeta();
-    meta.lastCompressState = state;
-    await this.setMeta(meta);
+  /**
+   * Returns content of used slots, all fetched in one round-trip.
+   *
+   * @param meta Meta values describing slots.
+   * @param indexes Indexes of slots, all used slots by default.
+   * @returns Array of blobs, one per slot.
+   */
+  protected async getBlobs(
+    meta: MetaValues,
+    indexes?: number[]
+  ): Promise<Blob[]> {
+    // Legacy meta doesn't know how many slots are used.
+    const count = meta.slotHashes
+      ? meta.slotHashes.length
+      : this.config.slotCount;
+    indexes = indexes ?? Array.from({ length: count }, (_, i) => i);
+    const keys = indexes.map((i) => this.slotKey(i, meta.slotTokens?.[i]));
+    const data = keys.length > 0 ? await this.storage.get(keys) : {};
+    return keys.map((key) => new Blob([data[key] ?? ""]));
   }
 
-  protected async setLastUpdated(updated: null | number = null): Promise<void> {
-    if (!updated) {
-      updated = Date.now();
+  /**
+   * Returns storage key of slot.
+   *
+   * Every write puts its slots under keys with its own token, so it never
+   * overwrites slots which committed meta points to, not even when other
+   * context commits in between.
+   *
+   * @param index Index of slot.
+   * @param token Token of write, legacy slots have none.
+   * @returns Key in StorageArea.
+   */
+  protected slotKey(index: number, token?: string): string {
+    if (token) {
+      return this.keyPrefix + index + "_" + token;
     }
-    const meta = this.getMeta();
-    meta.lastUpdated = updated;
-    await this.setMeta(meta);
+    return this.keyPrefix + index;
   }
 
-  protected async getBlob(index: number): Promise<Blob> {
-    const data = await this.storage.get(this.keyPrefix + index);
-    const value = data[this.keyPrefix + index];
-    return new Blob([value ?? ""]);
+  /**
+   * Returns keys of all slots described by meta.
+   *
+   * @param meta Meta values describing slots.
+   * @returns Keys in StorageArea.
+   */
+  protected slotKeys(meta: MetaValues | undefined): string[] {
+    // Legacy meta doesn't know how many slots are used.
+    const count = meta?.slotHashes
+      ? meta.slotHashes.length
+      : this.config.slotCount;
+    return Array.from({ length: count }, (_, i) =>
+      this.slotKey(i, meta?.slotTokens?.[i])
+    );
   }
 
-  protected async setBlob(index: number, value: Blob): Promise<void> {
-    const objValue: { [key: string]: string } = {};
-    objValue[this.keyPrefix + index] = await value.text();
-    await this.storage.set(objValue);
+  /**
+   * Creates random token for keys of slots written by one write.
+   *
+   * @param used Tokens which must not be repeated.
+   * @returns Token.
+   */
+  protected createSlotToken(used: string[] = []): string {
+    let token: string;
+    do {
+      token = "";
+      for (let i = 0; i < this.slotTokenLength; i++) {
+        token += Math.floor(Math.random() * 36).toString(36);
+      }
+    } while (used.includes(token));
+    return token;
   }
 
-  protected async connectedBlobs(): Promise<Blob> {
-    const blobs = [];
-    for (let i = 0; i < this.config.slotCount; i++) {
-      blobs.push(await this.getBlob(i));
-    }
-    return new Blob(blobs);
-  }
+  /**
+   * Removes given keys from stored document and writes the rest back.
+   *
+   * @param keys Keys to be removed.
+   */
+  protected async removeKeys(keys: string[]): Promise<void> {
+    try {
+      this.state = StorageStates.Uploading;
 
-  protected async compress(data: Blob): Promise<Blob> {
-    // Try to zlib.
-    const max = await this.getMaxCapacity();
-    this.debugLog("Size before compression", data.size, "/", max);
-    const bufferData = await data.arrayBuffer();
-    return new Promise<Blob>((resolve, reject) => {
-      deflate(bufferData, (err: Error | null, buffer: Buffer) => {
-        if (err) {
-          this.setLastCompress(LastCompressStates.Failed);
-          reject(new ZippingError(err));
+      const [oldJson, newJson] = await this.updateData((stored) => {
+        const json = { ...stored };
+        for (const key of keys) {
+          delete json[key];
         }
-        const newBlob = new Blob([buffer.toString("base64")]);
-        this.debugLog("Size after compression", newBlob.size, "/", max);
-        this.setLastCompress(LastCompressStates.Compressed);
-        resolve(newBlob);
+        return json;
       });
-    });
-  }
 
-  protected async decompress(data: Blob): Promise<Blob> {
-    // Try to unzip.
-    this.debugLog("Size before decompression", data.size);
-    const bufferData = Buffer.alloc(data.size);
-    bufferData.fill(await data.text(), 0, data.size, "base64");
-    return new Promise<Blob>((resolve, reject) => {
-      unzip(bufferData, (err: Error | null, buffer: Buffer) => {
-        if (err) {
-          reject(new ZippingError(err));
-        }
-        const newBlob = new Blob([buffer ? buffer.toString() : ""]);
-        this.debugLog("Size after decompression", newBlob.size);
-        resolve(newBlob);
-      });
-    });
+      // All went ok, evict from local cache.
+      for (const key of keys) {
+        this.localData.delete(key);
+      }
+      this.dispatchChanges(oldJson, newJson);
+
+      this.state = StorageStates.Idle;
+    } catch (error) {
+      this.state = StorageStates.Idle;
+      throw error;
+    }
+  }
+
+  /**
+   * Collects items in batched mode and (re)schedules their write.
+   *
+   * Local cache is updated right away, write waits for batchDelay since
+   * last set(), but never longer than batchMaxDelay since first one.
+   *
+   * @param items Items to be set.
+   * @returns Promise resolved when batch is written.
+   */
+  protected batchItems(
+    items: { [key: string]: any },
+    expires: { [key: string]: number | null }
+  ): Promise<void> {
+    for (const key of Object.keys(items)) {
+      this.localData.set(key, items[key]);
+    }
+    this.batch = { ...this.batch, ...items };
+    this.batchExpiry = { ...this.batchExpiry, ...expires };
+
+    if (!this.batchWrite) {
+      this.batchStarted = Date.now();
+      this.batchWrite = new Promise((resolve, reject) => {
+        this.batchSettle = { resolve, reject };
+      });
+    }
+    clearTimeout(this.batchTimer);
+    const delay = Math.min(
+      this.config.batchDelay,
+      this.batchStarted + this.config.batchMaxDelay - Date.now()
+    );
+    this.batchTimer = setTimeout(() => this.writeBatch(), Math.max(delay, 0));
+    return this.batchWrite;
+  }
+
+  /**
+   * Queues write of batched items, if there are any.
+   */
+  protected writeBatch(): void {
+    clearTimeout(this.batchTimer);
+    const settle = this.batchSettle;
+    if (!settle) {
+      return;
+    }
+    this.batchWrite = null;
+    this.batchSettle = null;
+
+    this.enqueue(async () => {
+      // Items are taken when write starts, so reads queued before see them.
+      const items = this.batch;
+      const expires = this.batchExpiry;
+      this.batch = {};
+      this.batchExpiry = {};
+      if (Object.keys(items).length === 0) {
+        return;
+      }
+      try {
+        this.state = StorageStates.Uploading;
+        const [oldData, newData, evicted] = await this.updateData(
+          (stored, base) => ({
+            ...this.omitKeys(stored, this.getExpired(base?.expiry)),
+            ...items,
+          }),
+          (base) => this.touchItems(base, expires),
+          Object.keys(items)
+        );
+        this.evictMissing(oldData, newData);
+        this.dispatchChanges(oldData, newData);
+        if (evicted.length > 0) {
+          this.config.onEvict?.(evicted);
+        }
+        this.state = StorageStates.Idle;
+      } catch (error) {
+        // Cache must not keep what wasn't stored.
+        for (const key of Object.keys(items)) {
+          this.localData.delete(key);
+        }
+        this.state = StorageStates.Idle;
+        throw error;
+      }
+    }).then(settle.resolve, settle.reject);
+  }
+
+  /**
+   * Runs operation after all previously queued ones are done.
+   *
+   * With empty queue operation starts right away, so state changes
+   * synchronously.
+   *
+   * @param operation Operation to be run.
+   * @returns Promise of operation result.
+   */
+  protected enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result =
+      this.pending === 0 ? operation() : this.queue.then(operation);
+    this.pending++;
+    const done = () => {
+      this.pending--;
+    };
+    this.queue = result.then(done, done);
+    return result;
+  }
+
+  /**
+   * Reads stored document, updates it and writes it back.
+   *
+   * When other context commits in between, update is applied again on its
+   * document. Writes racing at the very same moment can still collide, lock
+   * prevents that.
+   *
+   * @param update Returns new document from stored one and its meta.
+   * @param touch Returns new timestamps of keys from stored meta, stored
+   *   ones are kept when omitted.
+   * @param keep Keys which can't be evicted, nothing is evicted when omitted.
+   * @returns Documents before and after update, and evicted keys.
+   * @throws ConflictError when stored data keep changing.
+   */
+  protected async updateData(
+    update: (
+      json: { [key: string]: any },
+      base: MetaValues | undefined
+    ) => { [key: string]: any },
+    touch?: (base: MetaValues | undefined) => KeyTimesValues,
+    keep?: string[]
+  ): Promise<[{ [key: string]: any }, { [key: string]: any }, string[]]> {
+    const owner = await this.lock?.acquire();
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const base = await this.getLiveMeta();
+        const oldJson = await this.getStoredData();
+        const newJson = update(oldJson, base);
+        // Before write, so document is never replaced without snapshot.
+        await this.takeSnapshot(oldJson, base);
+        try {
+          const [writtenJson, evicted] = await this.writeEvicting(
+            newJson,
+            base,
+            touch?.(base),
+            keep
+          );
+          return [oldJson, writtenJson, evicted];
+        } catch (error) {
+          if (
+            !(error instanceof ConflictError) ||
+            attempt >= this.config.conflictRetries
+          ) {
+            throw error;
+          }
+          this.debugLog("Stored data changed, updating again", attempt + 1);
+        }
+      }
+    } finally {
+      if (owner) {
+        await this.lock?.release(owner);
+      }
+    }
+  }
+
+  /**
+   * Writes document, evicting keys by configured policy until it fits.
+   *
+   * @param json Document to be written.
+   * @param base Meta stored data were read with.
+   * @param times Timestamps of keys, stored ones are kept when omitted.
+   * @param keep Keys which can't be evicted, nothing is evicted when omitted.
+   * @returns Written document and evicted keys.
+   * @throws TooLargeDataError when data don't fit even after eviction.
+   */
+  protected async writeEvicting(
+    json: { [key: string]: any },
+    base: MetaValues | undefined,
+    times?: KeyTimesValues,
+    keep?: string[]
+  ): Promise<[{ [key: string]: any }, string[]]> {
+    const evicted: string[] = [];
+    for (;;) {
+      try {
+        await this.writeData(json, undefined, base, times);
+        return [json, evicted];
+      } catch (error) {
+        const victims =
+          error instanceof TooLargeDataError && keep
+            ? this.selectVictims(json, base, keep, error.exceeded ?? 1)
+            : [];
+        if (victims.length === 0) {
+          throw error;
+        }
+        this.debugLog("Data don't fit, evicting", victims);
+        json = this.omitKeys(json, victims);
+        evicted.push(...victims);
+      }
+    }
+  }
+
+  /**
+   * Selects keys to be evicted by configured policy.
+   *
+   * @param json Document which doesn't fit.
+   * @param meta Meta with timestamps of stored keys.
+   * @param keep Keys which can't be evicted.
+   * @param exceeded Bytes by which document doesn't fit.
+   * @returns Keys taking at least exceeded bytes, or all evictable ones.
+   */
+  protected selectVictims(
+    json: { [key: string]: any },
+    meta: MetaValues | undefined,
+    keep: string[],
+    exceeded: number
+  ): string[] {
+    const { eviction, priorities, protectedKeys } = this.config;
+    if (eviction === "none") {
+      return [];
+    }
+
+    // Keys are evicted by lowest rank, second number breaks ties.
+    const rank = (key: string): [number, number] => {
+      const written = meta?.written?.[key] ?? 0;
+      if (eviction === "priority") {
+        return [priorities[key] ?? 0, written];
+      }
+      if (eviction === "lru") {
+        const accessed = meta?.accessed?.[key] ?? 0;
+        return [Math.max(written, accessed, this.accessed.get(key) ?? 0), 0];
+      }
+      return [written, 0];
+    };
+    const candidates = Object.keys(json)
+      .filter((key) => !keep.includes(key) && !protectedKeys.includes(key))
+      .map((key): [string, [number, number]] => [key, rank(key)])
+      .sort(([, a], [, b]) => a[0] - b[0] || a[1] - b[1]);
+
+    // Size of serialized item is rather estimate of what is freed.
+    const victims: string[] = [];
+    let freed = 0;
+    for (const [key] of candidates) {
+      if (freed >= exceeded) {
+        break;
+      }
+      victims.push(key);
+      freed += JSON.stringify({ [key]: json[key] }).length;
+    }
+    return victims;
+  }
+
+  /**
+   * Adds document to snapshot history, if there is any.
+   *
+   * Snapshot is always compressed, with configured codec or deflate.
+   *
+   * @param json Document to be snapshotted.
+   * @param meta Meta document was read with.
+   */
+  protected async takeSnapshot(
+    json: { [key: string]: any },
+    meta: MetaValues | undefined
+  ): Promise<void> {
+    // Nothing is stored yet.
+    if (!this.history || !meta?.hash) {
+      return;
+    }
+    const serializer = this.getConfiguredSerializer();
+    const codec = this.getConfiguredCodec() ?? this.resolveCodec("deflate");
+    let data = await codec.compress(new Blob([serializer.serialize(json)]));
+    let encryption: EncryptionMetaValues | null = null;
+    if (this.encryption) {
+      const encrypted = await this.encryption.encrypt(data, meta.encryption);
+      data = encrypted.data;
+      encryption = encrypted.meta;
+    }
+    const id = await this.history.push(
+      {
+        lastUpdated: meta.lastUpdated,
+        hash: meta.hash,
+        codec: codec.id,
+        serializer: serializer.id,
+        encryption,
+      },
+      new Base64Encoding().encode(new Uint8Array(await data.arrayBuffer()))
+    );
+    this.debugLog("Snapshot taken", id);
+  }
+
+  /**
+   * Reads document from snapshot history.
+   *
+   * @param id Id of snapshot.
+   * @returns Snapshotted document.
+   * @throws SnapshotNotFoundError when snapshot is not in history.
+   */
+  protected async readSnapshot(id: number): Promise<{ [key: string]: any }> {
+    if (!this.history) {
+      throw new SnapshotNotFoundError(id);
+    }
+    const [meta, text] = await this.history.read(id);
+    let data = new Blob([new Base64Encoding().decode(text)]);
+    if (meta.encryption) {
+      if (!this.encryption) {
+        throw new DecryptionError("Data are encrypted, but no key is set.");
+      }
+      data = await this.encryption.decrypt(data, meta.encryption);
+    }
+    data = await this.decompress(data, this.resolveCodec(meta.codec));
+    const serializer = this.resolveSerializer(meta.serializer);
+    return serializer.deserialize(new Uint8Array(await data.arrayBuffer()));
+  }
+
+  /**
+   * Checks that nobody committed since base meta was read.
+   *
+   * @param base Meta stored data were read with.
+   * @param live Current meta in storage.
+   * @throws ConflictError when stored data have changed.
+   */
+  protected assertUnchanged(
+    base: MetaValues | undefined,
+    live: MetaValues | undefined
+  ): void {
+    if (base?.hash !== live?.hash || base?.lastUpdated !== live?.lastUpdated) {
+      throw new ConflictError();
+    }
+  }
+
+  /**
+   * Compares values as they would be stored.
+   *
+   * @param a First value.
+   * @param b Second value.
+   * @returns True if both serialize the same.
+   */
+  protected isSameValue(a: any, b: any): boolean {
+    if (a === undefined || b === undefined) {
+      return a === b;
+    }
+    const serializer = this.getConfiguredSerializer();
+    const left = serializer.serialize(a);
+    const right = serializer.serialize(b);
+    return (
+      left.length === right.length &&
+      left.every((byte, index) => byte === right[index])
+    );
+  }
+
+  /**
+   * Dispatches onChanged event with keys which differ between documents.
+   *
+   * @param oldJson Document before change.
+   * @param newJson Document after change.
+   */
+  protected dispatchChanges(
+    oldJson: { [key: string]: any },
+    newJson: { [key: string]: any }
+  ): void {
+    if (!this.onChanged.hasListeners()) {
+      return;
+    }
+
+    const changes: { [key: string]: StorageChange } = {};
+    for (const key of Object.keys({ ...oldJson, ...newJson })) {
+      if (this.isSameValue(oldJson[key], newJson[key])) {
+        continue;
+      }
+      changes[key] = {};
+      if (oldJson[key] !== undefined) {
+        changes[key].oldValue = oldJson[key];
+      }
+      if (newJson[key] !== undefined) {
+        changes[key].newValue = newJson[key];
+      }
+    }
+
+    if (Object.keys(changes).length > 0) {
+      this.onChanged.dispatch(changes);
+    }
+  }
+
+  /**
+   * Subscribes to onChanged of underlying storage, if it has one.
+   *
+   * When other context commits new meta, local cache is refreshed and
+   * our onChanged is dispatched. Changes are handled in operation queue,
+   * so they don't interleave with our own reads and writes.
+   */
+  protected listenToStorage(): void {
+    const storage = this.storage as Partial<{
+      onChanged: StorageChangedEventInterface;
+    }>;
+    storage.onChanged?.addListener((changes) => {
+      if (!changes[this.keyMeta] || !this.onChanged.hasListeners()) {
+        return;
+      }
+      this.enqueue(() => this.handleStorageChanges(changes)).catch((error) =>
+        this.debugLog("Failed to handle storage change", error)
+      );
+    });
+  }
+
+  protected async handleStorageChanges(changes: {
+    [key: string]: StorageChange;
+  }): Promise<void> {
+    const meta: MetaValues | undefined = changes[this.keyMeta]?.newValue;
+    if (
+      !meta ||
+      meta.lastUpdated === this.getMeta().lastUpdated ||
+      !this.onChanged.hasListeners()
+    ) {
+      return;
+    }
+
+    this.debugLog("Storage changed by other context", meta.lastUpdated);
+    const oldJson = this.getLocalData();
+    const newJson = await this.getStoredData();
+
+    // We are in sync with storage now.
+    this.meta = { ...meta };
+    this.localData.clear();
+    for (const key of Object.keys(newJson)) {
+      this.localData.set(key, newJson[key]);
+    }
+    this.dispatchChanges(oldJson, newJson);
+  }
+
+  /**
+   * Returns local cache as object.
+   *
+   * @returns Cached keys and values.
+   */
+  protected getLocalData(): { [key: string]: any } {
+    const json: { [key: string]: any } = {};
+    this.localData.forEach((value, key) => (json[key] = value));
+    return json;
+  }
+
+  /**
+   * Calculates bytes in use for getBytesInUse().
+   *
+   * @param keys Keys to be measured, null for whole storage.
+   * @returns Number of bytes.
+   */
+  protected async calculateBytesInUse(
+    keys?: string | string[] | null
+  ): Promise<number> {
+    // Whole storage including slots and meta overhead.
+    if (keys === undefined || keys === null) {
+      const meta = (await this.getLiveMeta()) ?? this.getMeta();
+      return this.storage.getBytesInUse([this.keyMeta, ...this.slotKeys(meta)]);
+    }
+
+    const json = await this.getStoredData();
+    let bytes = 0;
+    for (const key of this.argKeysToArray(keys)) {
+      if (json[key] !== undefined) {
+        bytes +=
+          new Blob([key]).size +
+          this.getConfiguredSerializer().serialize(json[key]).length;
+      }
+    }
+
+    // Attribute compressed size proportionally.
+    if (
+      bytes > 0 &&
+      this.getLastCompressState() === LastCompressStates.Compressed
+    ) {
+      const compressed = await this.connectedBlobs();
+      const whole = this.getConfiguredSerializer().serialize(json).length;
+      bytes = Math.ceil((bytes * compressed.size) / whole);
+    }
+
+    return bytes;
+  }
+
+  /**
+   * Returns whole stored document parsed.
+   *
+   * @returns Stored JSON object, empty object if there is no data.
+   */
+  protected async getStoredData(): Promise<{ [key: string]: any }> {
+    const meta = (await this.getLiveMeta()) ?? this.getMeta();
+    const blobData = await this.getAsBlob(meta);
+    if (blobData.size === 0) {
+      return {};
+    }
+    const serializer = this.resolveSerializer(meta.serializer ?? "json");
+    return serializer.deserialize(new Uint8Array(await blobData.arrayBuffer()));
+  }
+
+  /**
+   * Returns stored items, reading only their slots when meta has key index.
+   *
+   * @param keys Keys to be read.
+   * @returns Object with at least given keys, if they are stored.
+   * @throws CorruptedDataError when read slot doesn't match its hash.
+   */
+  protected async getStoredItems(
+    keys: string[]
+  ): Promise<{ [key: string]: any }> {
+    const meta = (await this.getLiveMeta()) ?? this.getMeta();
+    const keyIndex = meta.keyIndex;
+    if (!keyIndex || keys.length === 0) {
+      return this.getStoredData();
+    }
+
+    const slots = new Set<number>();
+    for (const key of keys) {
+      const range = keyIndex[key];
+      for (let i = range?.[0]; range && i <= range[1]; i++) {
+        slots.add(i);
+      }
+    }
+    const indexes = Array.from(slots).sort((a, b) => a - b);
+    const texts: string[] = [];
+    const blobs = await this.getBlobs(meta, indexes);
+    for (let i = 0; i < indexes.length; i++) {
+      texts[indexes[i]] = await blobs[i].text();
+      const expected = meta.slotHashes?.[indexes[i]] ?? null;
+      if (this.canVerify(meta)) {
+        const hash = await this.calculateSlotHash(texts[indexes[i]]);
+        if (hash !== expected) {
+          throw new CorruptedDataError(expected, hash, [indexes[i]]);
+        }
+      }
+    }
+
+    // Keys missing in index are not stored.
+    const json: { [key: string]: any } = {};
+    for (const key of keys) {
+      const range = keyIndex[key];
+      if (range) {
+        const [first, last, offset, length] = range;
+        const text = texts.slice(first, last + 1).join("");
+        json[key] = JSON.parse(text.substr(offset, length));
+      }
+    }
+    return json;
+  }
+
+  /**
+   * Finds where value of each top-level key is in slots.
+   *
+   * @param json Document, serialized with JSON.stringify().
+   * @param parts Raw slot contents of serialized document.
+   * @returns Key index, null if document can't be indexed.
+   */
+  protected indexKeys(
+    json: { [key: string]: any },
+    parts: string[]
+  ): KeyIndexValues | null {
+    // Offsets of values in serialized document, after opening brace.
+    const ranges: { [key: string]: [number, number] } = {};
+    let position = 1;
+    for (const key of Object.keys(json)) {
+      const value = JSON.stringify(json[key]);
+      // Undefined values are left out of document.
+      if (value === undefined) {
+        continue;
+      }
+      position += JSON.stringify(key).length + 1;
+      ranges[key] = [position, value.length];
+      position += value.length + 1;
+    }
+    const length = parts.reduce((sum, part) => sum + part.length, 0);
+    if (Math.max(position, 2) !== length) {
+      return null;
+    }
+
+    const index: KeyIndexValues = {};
+    let slot = 0;
+    let slotStart = 0;
+    for (const key of Object.keys(ranges)) {
+      const [start, size] = ranges[key];
+      while (start >= slotStart + parts[slot].length) {
+        slotStart += parts[slot++].length;
+      }
+      let last = slot;
+      let lastStart = slotStart;
+      while (start + size > lastStart + parts[last].length) {
+        lastStart += parts[last++].length;
+      }
+      index[key] = [slot, last, start - slotStart, size];
+    }
+    return index;
+  }
+
+  /**
+   * Serializes document, compresses it if needed and writes it into slots.
+   *
+   * Also updates hashes and lastUpdated meta values.
+   *
+   * @param json Complete document to be stored.
+   * @param schemaVersion Schema of document, current one by default.
+   * @param base Meta document was read with, checked for conflicts when set.
+   * @throws ConflictError when other context committed since base.
+   */
+  protected async writeData(
+    json: { [key: string]: any },
+    schemaVersion = this.config.migrations.length,
+    base?: MetaValues,
+    times?: KeyTimesValues
+  ): Promise<void> {
+    const serializer = this.getConfiguredSerializer();
+    const precompressedData = new Blob([serializer.serialize(json)]);
+
+    // Compress if needed.
+    let data = precompressedData;
+    const preCompressHash = await this.calculateHash(
+      await precompressedData.text()
+    );
+    const codec = this.getConfiguredCodec();
+    if (codec) {
+      data = await this.compress(precompressedData, codec);
+    }
+
+    // Don't overwrite document migrated by newer code.
+    const liveMeta = await this.getLiveMeta();
+    if (base) {
+      this.assertUnchanged(base, liveMeta);
+    }
+    const storedVersion = liveMeta?.schemaVersion ?? 0;
+    if (storedVersion > schemaVersion) {
+      throw new SchemaVersionError(storedVersion, schemaVersion);
+    }
+
+    // Every write has new IV, so unchanged encrypted data are told by keyed
+    // hash of plain data and their slots are kept.
+    const encoding = this.getConfiguredSlotEncoding();
+    let plainHash = codec ? preCompressHash : null;
+    let unchanged = false;
+    if (this.encryption && liveMeta?.encryption) {
+      plainHash = await this.encryption.hash(
+        precompressedData,
+        liveMeta.encryption
+      );
+      unchanged =
+        plainHash !== null &&
+        plainHash === liveMeta.hashPreCompress &&
+        (codec?.id ?? null) === liveMeta.codec &&
+        encoding.id === liveMeta.slotEncoding &&
+        serializer.id === liveMeta.serializer &&
+        this.formatVersion === liveMeta.formatVersion &&
+        this.config.slotSize === liveMeta.slotSize &&
+        this.config.slotCount === liveMeta.slotCount;
+    }
+
+    let encryption: EncryptionMetaValues | null = null;
+    let parts: string[] = [];
+    let hash = liveMeta?.hash ?? null;
+    let slotHashes = liveMeta?.slotHashes ?? [];
+    let slotTokens = liveMeta?.slotTokens ?? [];
+    if (unchanged) {
+      encryption = liveMeta?.encryption ?? null;
+    } else {
+      // Encrypt, salt of stored data is kept so derived key can be reused.
+      if (this.encryption) {
+        const encrypted = await this.encryption.encrypt(
+          data,
+          liveMeta?.encryption
+        );
+        data = encrypted.data;
+        encryption = encrypted.meta;
+        plainHash = await this.encryption.hash(precompressedData, encryption);
+      }
+
+      // Encode into text and check for capacity.
+      parts = this.splitToSlots(
+        encoding.encode(new Uint8Array(await data.arrayBuffer()))
+      );
+      if (parts.length > this.config.slotCount) {
+        const over = new Blob(parts.slice(this.config.slotCount)).size;
+        throw new TooLargeDataError(over);
+      }
+      [slotHashes, slotTokens] = await this.hashSlots(parts, liveMeta);
+      hash = await this.calculateHash(parts.join(""));
+    }
+
+    // Read times are kept locally until write.
+    const accessed = { ...liveMeta?.accessed };
+    this.accessed.forEach((time, key) => {
+      accessed[key] = Math.max(time, accessed[key] ?? 0);
+    });
+    const eviction = this.config.eviction;
+    const meta: MetaValues = {
+      ...this.getMeta(),
+      hash,
+      // Hash of encrypted data is keyed, plain one would reveal content.
+      hashPreCompress: plainHash,
+      lastCompressState: codec
+        ? LastCompressStates.Compressed
+        : LastCompressStates.Uncomporessed,
+      codec: codec ? codec.id : null,
+      slotEncoding: encoding.id,
+      serializer: serializer.id,
+      encryption,
+      hashAlgorithm: this.backend.hashAlgorithm,
+      lastUpdated: Date.now(),
+      slotHashes,
+      slotTokens,
+      schemaVersion,
+      formatVersion: this.formatVersion,
+      slotSize: this.config.slotSize,
+      slotCount: this.config.slotCount,
+      keyIndex: null,
+      expiry: this.keepStored(times?.expiry ?? liveMeta?.expiry, json),
+      written:
+        eviction !== "none"
+          ? this.keepStored(times?.written ?? liveMeta?.written, json)
+          : null,
+      accessed: eviction === "lru" ? this.keepStored(accessed, json) : null,
+    };
+
+    // Only plain text in slots can be read by parts.
+    if (this.config.keyIndex && !codec && !encryption) {
+      meta.keyIndex =
+        encoding.id === "raw" && serializer.id === "json"
+          ? this.indexKeys(json, parts)
+          : null;
+    }
+    // Meta grows with times of keys, so it's checked before slots are
+    // written. Index is rather left out, times are needed.
+    const maxSize = this.getLimits()?.QUOTA_BYTES_PER_ITEM;
+    const metaSize = () => this.keyMeta.length + JSON.stringify(meta).length;
+    if (maxSize && meta.keyIndex && metaSize() > maxSize) {
+      meta.keyIndex = null;
+    }
+    if (maxSize && metaSize() > maxSize) {
+      throw new TooLargeDataError(metaSize() - maxSize);
+    }
+
+    const [writtenKeys, staleKeys] = unchanged
+      ? [[], []]
+      : await this.writeSlots(parts, slotTokens, liveMeta);
+
+    // Commit in a single write, so readers see either old or new document.
+    try {
+      if (base) {
+        this.assertUnchanged(base, await this.getLiveMeta());
+      }
+      await this.setMeta(meta);
+    } catch (error) {
+      // Nobody references our slots, other context committed its own.
+      if (writtenKeys.length > 0) {
+        await this.storage.remove(writtenKeys);
+      }
+      throw error;
+    }
+    if (!unchanged) {
+      this.occupiedStorage = data.size;
+    }
+    this.debugLog("committed hash", this.getHash());
+
+    // Replaced slots are not referenced by meta anymore.
+    if (staleKeys.length > 0) {
+      await this.storage.remove(staleKeys);
+    }
+  }
+
+  /**
+   * Calculates hashes of parts, and tokens of their slot keys.
+   *
+   * Parts which differ from stored slots get new token, they are written
+   * under new keys.
+   *
+   * @param parts Parts of data, one per slot.
+   * @param liveMeta Meta of stored slots.
+   * @returns Slot hashes and tokens.
+   */
+  protected async hashSlots(
+    parts: string[],
+    liveMeta: MetaValues | undefined
+  ): Promise<[string[], string[]]> {
+    // Slots currently in storage. Legacy meta doesn't know about them.
+    const oldHashes = liveMeta?.slotHashes;
+    const oldTokens = liveMeta?.slotTokens ?? [];
+    const token = this.createSlotToken(oldTokens);
+
+    const slotHashes: string[] = [];
+    const slotTokens: string[] = [];
+    for (let index = 0; index < parts.length; index++) {
+      const partHash = await this.calculateSlotHash(parts[index]);
+      slotHashes.push(partHash);
+      slotTokens.push(
+        oldHashes && oldHashes[index] === partHash
+          ? oldTokens[index] ?? ""
+          : token
+      );
+    }
+    return [slotHashes, slotTokens];
+  }
+
+  /**
+   * Writes parts which differ from stored slots under keys with new token.
+   *
+   * All of them are written at once, every write counts against write
+   * quota of synced storage.
+   *
+   * @param parts Parts of data, one per slot.
+   * @param slotTokens Tokens of slot keys, new ones for changed parts.
+   * @param liveMeta Meta of stored slots.
+   * @returns Keys which were written, and keys which are not referenced
+   *   by new slots anymore.
+   */
+  protected async writeSlots(
+    parts: string[],
+    slotTokens: string[],
+    liveMeta: MetaValues | undefined
+  ): Promise<[string[], string[]]> {
+    const oldKeys = this.slotKeys(liveMeta);
+    const slots: { [key: string]: string } = {};
+    const staleKeys: string[] = [];
+    for (let index = 0; index < parts.length; index++) {
+      const key = this.slotKey(index, slotTokens[index]);
+      if (key !== oldKeys[index]) {
+        slots[key] = parts[index];
+        if (index < oldKeys.length) {
+          staleKeys.push(oldKeys[index]);
+        }
+      }
+    }
+
+    const writtenKeys = Object.keys(slots);
+    if (writtenKeys.length > 0) {
+      await this.storage.set(slots);
+    }
+
+    // Trailing slots which are not used anymore.
+    staleKeys.push(...oldKeys.slice(parts.length));
+    return [writtenKeys, staleKeys];
+  }
+
+  /**
+   * Removes all slots from storage.
+   */
+  protected async clearSlots(): Promise<void> {
+    // Commit empty meta first, then remove slots.
+    await this.setMeta({
+      ...this.getMeta(),
+      hash: null,
+      hashPreCompress: null,
+      lastUpdated: Date.now(),
+      slotHashes: [],
+      slotTokens: [],
+      formatVersion: this.formatVersion,
+      slotSize: this.config.slotSize,
+      slotCount: this.config.slotCount,
+      keyIndex: null,
+      expiry: {},
+      written: null,
+      accessed: null,
+    });
+
+    // Slots of writes which never committed are swept too.
+    const keys = Object.keys(await this.storage.get(null)).filter((key) =>
+      key.startsWith(this.keyPrefix)
+    );
+    if (keys.length > 0) {
+      await this.storage.remove(keys);
+    }
+    this.occupiedStorage = 0;
+  }
+
+  /**
+   * Splits text into parts which fit into slots.
+   *
+   * Size of slot is measured in UTF-8 bytes or UTF-16 code units, as
+   * configured, and characters are never split, so every part is a valid
+   * string on its own. When storage limits are
+   * known, JSON escaping is counted as well.
+   *
+   * @param text Encoded data.
+   * @returns Parts, there might be more of them than slots.
+   */
+  protected splitToSlots(text: string): string[] {
+    // With known limits measure as storage does, escaped in JSON.
+    const escaped = this.getLimits() !== null;
+    const utf16 = this.config.slotUnit === "utf16";
+    const parts: string[] = [];
+    let part = "";
+    let partSize = 0;
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      let char = text[i];
+      let size = utf16 || code < 0x80 ? 1 : code < 0x800 ? 2 : 3;
+      if (escaped && code < 0x80) {
+        size = JSON.stringify(char).length - 2;
+      }
+      // Surrogate pair is one 4 byte character, or two code units.
+      if (code >= 0xd800 && code < 0xdc00 && i + 1 < text.length) {
+        char += text[++i];
+        size = utf16 ? 2 : 4;
+      }
+      if (partSize + size > this.config.slotSize) {
+        parts.push(part);
+        part = "";
+        partSize = 0;
+      }
+      part += char;
+      partSize += size;
+    }
+    parts.push(part);
+    return parts;
+  }
+
+  protected async compress(data: Blob, codec: CodecInterface): Promise<Blob> {
+    const max = await this.getMaxCapacity();
+    this.debugLog("Size before compression", codec.id, data.size, "/", max);
+    // Only local state, storage meta is committed together with slots.
+    let newBlob: Blob;
+    try {
+      newBlob = await codec.compress(data);
+    } catch (err) {
+      this.meta.lastCompressState = LastCompressStates.Failed;
+      throw new ZippingError(err as Error);
+    }
+    this.debugLog("Size after compression", newBlob.size, "/", max);
+    this.meta.lastCompressState = LastCompressStates.Compressed;
+    return newBlob;
+  }
+
+  protected async decompress(data: Blob, codec: CodecInterface): Promise<Blob> {
+    this.debugLog("Size before decompression", codec.id, data.size);
+    let newBlob: Blob;
+    try {
+      newBlob = await codec.decompress(data);
+    } catch (err) {
+      throw new ZippingError(err as Error);
+    }
+    this.debugLog("Size after decompression", newBlob.size);
+    return newBlob;
+  }
+
+  /**
+   * Returns codec which should be used for writing.
+   *
+   * @returns Codec, or null if data should not be compressed.
+   */
+  protected getConfiguredCodec(): CodecInterface | null {
+    const codec = this.config.codec;
+    if (!this.config.compress || codec === "none") {
+      return null;
+    }
+    return typeof codec === "string" ? this.resolveCodec(codec) : codec;
+  }
+
+  /**
+   * Finds codec by id, which is either built-in or the configured custom one.
+   *
+   * @param id Codec id as stored in meta.
+   * @returns Codec.
+   * @throws ZippingError when there is no such codec.
+   */
+  protected resolveCodec(id: string): CodecInterface {
+    const configured = this.config.codec;
+    if (typeof configured !== "string" && configured.id === id) {
+      return configured;
+    }
+    if (id === "deflate" || id === "gzip" || id === "brotli") {
+      return this.backend.createCodec(id);
+    }
+    throw new ZippingError(new Error(`Unknown codec "${id}".`));
+  }
+
+  /**
+   * Returns serializer which should be used for writing.
+   *
+   * @returns Serializer.
+   */
+  protected getConfiguredSerializer(): SerializerInterface {
+    const serializer = this.config.serializer;
+    return typeof serializer === "string"
+      ? this.resolveSerializer(serializer)
+      : serializer;
+  }
+
+  /**
+   * Finds serializer by id, which is either built-in or the configured custom one.
+   *
+   * @param id Serializer id as stored in meta.
+   * @returns Serializer.
+   */
+  protected resolveSerializer(id: string): SerializerInterface {
+    const configured = this.config.serializer;
+    if (typeof configured !== "string" && configured.id === id) {
+      return configured;
+    }
+    if (id === "json") {
+      return new JsonSerializer();
+    } else if (id === "tagged") {
+      return new TaggedSerializer();
+    } else if (id === "msgpack") {
+      return new MessagePackSerializer();
+    }
+    throw new Error(`Unknown serializer "${id}".`);
+  }
+
+  /**
+   * Returns slot encoding which should be used for writing.
+   *
+   * @returns Slot encoding.
+   */
+  protected getConfiguredSlotEncoding(): SlotEncodingInterface {
+    const id = this.config.slotEncoding;
+    if (id === "auto") {
+      const binary =
+        this.getConfiguredCodec() ||
+        this.encryption ||
+        this.getConfiguredSerializer().binary;
+      if (!binary) {
+        return this.resolveSlotEncoding("raw");
+      }
+      return this.resolveSlotEncoding(
+        this.config.slotUnit === "utf16" ? "base32768" : "base64"
+      );
+    }
+    return this.resolveSlotEncoding(id);
+  }
+
+  /**
+   * Finds slot encoding by id.
+   *
+   * @param id Slot encoding id as stored in meta.
+   * @returns Slot encoding.
+   */
+  protected resolveSlotEncoding(id: string): SlotEncodingInterface {
+    if (id === "base64") {
+      return new Base64Encoding();
+    } else if (id === "base32768") {
+      return new Base32768Encoding();
+    } else if (id === "raw") {
+      return new RawEncoding();
+    }
+    throw new Error(`Unknown slot encoding "${id}".`);
+  }
+
+  /**
+   * Checks configuration, so it doesn't fail later on set().
+   *
+   * @throws InvalidConfigError when configuration can't work.
+   */
+  protected async validateConfig(): Promise<void> {
+    if (this.config.slotEncoding === "raw" && this.getConfiguredCodec()) {
+      throw new InvalidConfigError(
+        "Raw slot encoding can't store compressed data."
+      );
+    }
+    if (this.config.slotEncoding === "raw" && this.encryption) {
+      throw new InvalidConfigError(
+        "Raw slot encoding can't store encrypted data."
+      );
+    }
+    if (
+      this.config.slotEncoding === "raw" &&
+      this.getConfiguredSerializer().binary
+    ) {
+      throw new InvalidConfigError(
+        "Raw slot encoding can't store binary serialized data."
+      );
+    }
+    const encryption = this.config.encryption;
+    if (encryption && !encryption.key && !encryption.passphrase) {
+      throw new InvalidConfigError("Encryption needs key or passphrase.");
+    }
+    if (this.config.namespace?.includes(":")) {
+      throw new InvalidConfigError("Namespace can't contain colon.");
+    }
+    if (this.config.snapshots > 0 && !this.config.snapshotStorage) {
+      throw new InvalidConfigError("Snapshots need snapshotStorage.");
+    }
+
+    const limits = this.getLimits();
+    if (!limits) {
+      return;
+    }
+    const { slotSize, slotCount } = this.config;
+    const itemSize = this.slotItemSize(slotSize, slotCount);
+    const metaSize = await this.estimateMetaSize(slotCount);
+    const maxItemSize = limits.QUOTA_BYTES_PER_ITEM ?? limits.QUOTA_BYTES;
+    if (itemSize > maxItemSize) {
+      throw new InvalidConfigError(
+        `Slot takes ${itemSize} bytes, but storage allows ${maxItemSize} bytes per item.`
+      );
+    }
+    if (metaSize > maxItemSize) {
+      throw new InvalidConfigError(
+        `Meta of ${slotCount} slots takes ${metaSize} bytes, but storage allows ${maxItemSize} bytes per item.`
+      );
+    }
+    // Committed and newly written copy of every slot might exist while writing.
+    const maxItems = 2 * slotCount + 1;
+    if (limits.MAX_ITEMS !== undefined && maxItems > limits.MAX_ITEMS) {
+      throw new InvalidConfigError(
+        `Storage needs up to ${maxItems} items, but storage allows ${limits.MAX_ITEMS} items.`
+      );
+    }
+    const maxBytes = await this.getMaxFootprint();
+    if (maxBytes > limits.QUOTA_BYTES) {
+      throw new InvalidConfigError(
+        `Storage needs up to ${maxBytes} bytes, but storage allows ${limits.QUOTA_BYTES} bytes.`
+      );
+    }
+  }
+
+  /**
+   * Registers our namespace with bytes it can take at most.
+   *
+   * Storage without namespace and shared quota doesn't take part.
+   *
+   * @throws InvalidConfigError when namespaces would exceed shared quota.
+   */
+  protected async registerNamespace(): Promise<void> {
+    if (
+      this.config.namespace === undefined &&
+      this.config.sharedQuota === undefined
+    ) {
+      return;
+    }
+    const quota = this.config.sharedQuota ?? this.getLimits()?.QUOTA_BYTES;
+    await new NamespaceRegistry(this.storage).register(
+      this.config.namespace ?? "",
+      await this.getMaxFootprint(),
+      quota
+    );
+  }
+
+  /**
+   * Returns the most bytes storage can take, including meta and both
+   * committed and newly written copy of every slot.
+   *
+   * @returns Size in bytes.
+   */
+  protected async getMaxFootprint(): Promise<number> {
+    const { slotSize, slotCount } = this.config;
+    const itemSize = this.slotItemSize(slotSize, slotCount);
+    return 2 * slotCount * itemSize + (await this.estimateMetaSize(slotCount));
+  }
+
+  /**
+   * Derives slotSize and slotCount with the biggest capacity within limits.
+   *
+   * Fewer bigger slots are preferred, because every slot has overhead.
+   *
+   * @throws InvalidConfigError when limits are unknown.
+   */
+  protected async configureSlots(): Promise<void> {
+    const limits = this.getLimits();
+    if (!limits) {
+      throw new InvalidConfigError("Storage limits are unknown.");
+    }
+    const maxItemSize = limits.QUOTA_BYTES_PER_ITEM ?? limits.QUOTA_BYTES;
+    const maxSlots = Math.floor(((limits.MAX_ITEMS ?? Infinity) - 1) / 2);
+
+    let best = { slotSize: 0, slotCount: 0 };
+    for (let slotCount = 1; slotCount <= maxSlots; slotCount++) {
+      const metaSize = await this.estimateMetaSize(slotCount);
+      const overhead = this.slotItemSize(0, slotCount);
+      const slotSize = Math.min(
+        maxItemSize - overhead,
+        Math.floor((limits.QUOTA_BYTES - metaSize) / (2 * slotCount)) - overhead
+      );
+      if (slotSize < 1 || metaSize > maxItemSize) {
+        break;
+      }
+      // Total quota is the limit now, more slots only add overhead.
+      if (slotSize * slotCount < best.slotSize * best.slotCount) {
+        break;
+      }
+      best = { slotSize, slotCount };
+    }
+
+    if (best.slotCount === 0) {
+      throw new InvalidConfigError("Storage limits are too small.");
+    }
+    this.config = { ...this.config, ...best };
+    this.debugLog("Configured slots", best);
+  }
+
+  /**
+   * Returns limits of underlying storage.
+   *
+   * @returns Configured limits, limits read from storage, or null if unknown.
+   */
+  protected getLimits(): StorageLimitsInterface | null {
+    if (this.config.limits) {
+      return this.config.limits;
+    }
+    const storage = this.storage as Partial<StorageLimitsInterface>;
+    if (typeof storage.QUOTA_BYTES === "number") {
+      return {
+        QUOTA_BYTES: storage.QUOTA_BYTES,
+        QUOTA_BYTES_PER_ITEM: storage.QUOTA_BYTES_PER_ITEM,
+        MAX_ITEMS: storage.MAX_ITEMS,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Returns size of slot item as storage measures it, key plus JSON value.
+   *
+   * @param slotSize Size of slot content.
+   * @param slotCount Number of slots, the longest key is the last one.
+   * @returns Size in bytes.
+   */
+  protected slotItemSize(slotSize: number, slotCount: number): number {
+    const key = this.slotKey(slotCount - 1, "x".repeat(this.slotTokenLength));
+    // Two quotes around the string.
+    return key.length + 2 + slotSize;
+  }
+
+  /**
+   * Estimates size of meta item when all slots are used.
+   *
+   * Times of keys grow with stored document, so every write checks them.
+   *
+   * @param slotCount Number of slots.
+   * @returns Size in bytes.
+   */
+  protected async estimateMetaSize(slotCount: number): Promise<number> {
+    const hash = await this.calculateHash("");
+    const meta: MetaValues = {
+      ...this.getMeta(),
+      hash,
+      hashPreCompress: hash,
+      lastUpdated: Date.now(),
+      lastCompressState: LastCompressStates.Uncomporessed,
+      codec: "deflate",
+      slotEncoding: "base32768",
+      serializer: "msgpack",
+      encryption: this.encryption
+        ? {
+            algorithm: "AES-GCM",
+            iv: "x".repeat(16),
+            kdf: "PBKDF2",
+            salt: "x".repeat(24),
+            iterations: 1000000,
+          }
+        : null,
+      hashAlgorithm: this.backend.hashAlgorithm,
+      slotHashes: new Array(slotCount).fill(hash.slice(0, this.slotHashLength)),
+      slotTokens: new Array(slotCount).fill("x".repeat(this.slotTokenLength)),
+      schemaVersion: this.config.migrations.length,
+      slotSize: this.config.slotSize,
+      slotCount,
+    };
+    return this.keyMeta.length + JSON.stringify(meta).length;
   }
 
   /**
@@ -507,14 +2357,204 @@ class BlobStorageArea implements BlobStorageAreaInterface {
     let ks: string[] = [];
     if (typeof keys === "string") {
       ks = [keys];
+    } else if (Array.isArray(keys)) {
+      ks = keys;
     } else if (typeof keys === "object") {
-      ks = keys?.keys;
+      // Object with default values.
+      ks = Object.keys(keys);
     } else {
       ks = keys ?? [];
     }
     return ks;
   }
 
+  /**
+   * Returns defaults from StorageArea::get() argument, if there are any.
+   *
+   * @param items from StorageArea::get() argument.
+   * @returns Object with default values, empty for other forms.
+   */
+  protected argDefaults(
+    items?: string | string[] | { [key: string]: any } | null
+  ): { [key: string]: any } {
+    if (typeof items === "object" && items !== null && !Array.isArray(items)) {
+      return items;
+    }
+    return {};
+  }
+
+  /**
+   * Picks values of keys from document, missing ones from defaults.
+   *
+   * @param json Document to pick from.
+   * @param keys Keys to be picked.
+   * @param defaults Values of keys missing in document.
+   * @returns Object without keys missing in both.
+   */
+  protected pickValues(
+    json: { [key: string]: any },
+    keys: string[],
+    defaults: { [key: string]: any }
+  ): { [key: string]: any } {
+    const values: { [key: string]: any } = {};
+    for (const key of keys) {
+      const value = json[key] !== undefined ? json[key] : defaults[key];
+      if (value !== undefined) {
+        values[key] = value;
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Returns document without given keys.
+   *
+   * @param json Document to be copied.
+   * @param keys Keys to be left out.
+   * @returns Copy of document.
+   */
+  protected omitKeys(
+    json: { [key: string]: any },
+    keys: string[]
+  ): { [key: string]: any } {
+    const copy = { ...json };
+    for (const key of keys) {
+      delete copy[key];
+    }
+    return copy;
+  }
+
+  /**
+   * Evicts keys missing in new document from local cache.
+   *
+   * @param oldJson Document before update.
+   * @param newJson Document after update.
+   */
+  protected evictMissing(
+    oldJson: { [key: string]: any },
+    newJson: { [key: string]: any }
+  ): void {
+    for (const key of Object.keys(oldJson)) {
+      if (!newJson.hasOwnProperty(key)) {
+        this.localData.delete(key);
+        this.accessed.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Returns timestamps of keys which are stored in document.
+   *
+   * @param timestamps Timestamps of keys.
+   * @param json Stored document.
+   * @returns Timestamps without keys missing in document.
+   */
+  protected keepStored(
+    timestamps: KeyTimestampValues | null | undefined,
+    json: { [key: string]: any }
+  ): KeyTimestampValues {
+    const kept: KeyTimestampValues = {};
+    for (const [key, time] of Object.entries(timestamps ?? {})) {
+      if (json.hasOwnProperty(key)) {
+        kept[key] = time;
+      }
+    }
+    return kept;
+  }
+
+  /**
+   * Updates stored timestamps of keys with items being set.
+   *
+   * @param base Meta items are merged with.
+   * @param expires Expiry timestamps of items.
+   * @returns Expiry and write timestamps.
+   */
+  protected touchItems(
+    base: MetaValues | undefined,
+    expires: { [key: string]: number | null }
+  ): KeyTimesValues {
+    const now = Date.now();
+    const written = { ...base?.written };
+    for (const key of Object.keys(expires)) {
+      written[key] = now;
+    }
+    return { expiry: this.applyExpiry(base?.expiry ?? {}, expires), written };
+  }
+
+  /**
+   * Turns TTL of set() options into expiry timestamps of items.
+   *
+   * @param items Items being set.
+   * @param options Options of set().
+   * @returns Timestamp of each item, null if item doesn't expire.
+   */
+  protected expireItems(
+    items: { [key: string]: any },
+    options?: SetOptionsInterface
+  ): { [key: string]: number | null } {
+    const now = Date.now();
+    const ttl = options?.ttl;
+    const expires: { [key: string]: number | null } = {};
+    for (const key of Object.keys(items)) {
+      const keyTtl = typeof ttl === "number" ? ttl : ttl?.[key];
+      expires[key] = keyTtl !== undefined ? now + keyTtl : null;
+    }
+    return expires;
+  }
+
+  /**
+   * Applies expiry timestamps of set items to stored ones.
+   *
+   * @param expiry Stored timestamps.
+   * @param expires Timestamps of items, null removes expiry.
+   * @returns New timestamps.
+   */
+  protected applyExpiry(
+    expiry: KeyTimestampValues,
+    expires: { [key: string]: number | null }
+  ): KeyTimestampValues {
+    const result = { ...expiry };
+    for (const [key, timestamp] of Object.entries(expires)) {
+      if (timestamp === null) {
+        delete result[key];
+      } else {
+        result[key] = timestamp;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Lists keys which have expired.
+   *
+   * @param expiry Expiry timestamps.
+   * @returns Expired keys.
+   */
+  protected getExpired(expiry: KeyTimestampValues | undefined): string[] {
+    const now = Date.now();
+    return Object.keys(expiry ?? {}).filter((key) => expiry![key] <= now);
+  }
+
+  /**
+   * Passes result of operation to callback of StorageArea method.
+   *
+   * Same as in chrome, callback is called without value when operation
+   * fails. Callback API has no way to pass the error, so it is logged.
+   *
+   * @param promise Result of operation.
+   * @param callback Callback of method.
+   */
+  protected settleCallback<T>(
+    promise: Promise<T>,
+    callback: (value?: T) => void
+  ): void {
+    promise.then(callback, (error) => {
+      // tslint:disable-next-line:no-console
+      console.error(error);
+      callback();
+    });
+  }
+
   protected debugLog(...args: any[]): void {
     if (this.config.debugLog) {
       let prefix = "BlobStorage";
@@ -528,4 +2568,18 @@ class BlobStorageArea implements BlobStorageAreaInterface {
   }
 }
 
-export { BlobStorageArea, TooLargeDataError, BlobStorageConfig, ZippingError };
+export {
+  BlobStorageArea,
+  TooLargeDataError,
+  BlobStorageConfig,
+  ZippingError,
+  CorruptedDataError,
+  InvalidConfigError,
+  DecryptionError,
+  SchemaVersionError,
+  FormatVersionError,
+  ConflictError,
+  SnapshotNotFoundError,
+  NamespaceRegistry,
+  CompositeStorageArea,
+};
@@ -0,0 +1,212 @@
+import type {
+  BlobStorageAreaInterface,
+  CompositeStorageConfigInterface,
+} from "./types";
+import { TooLargeDataError } from "./errors/TooLargeDataError";
+
+/**
+ * Storage spread over two blob storages, primary and overflow.
+ *
+ * Keys with the highest priority are kept in primary storage (e.g. on top
+ * of chrome.storage.sync), the rest spills into overflow storage (e.g. on
+ * top of chrome.storage.local) once primary is full. Every key is stored
+ * in one of them only.
+ *
+ * Primary storage must not use eviction. It would drop keys to make room
+ * instead of refusing them, so they would never spill into overflow.
+ */
+class CompositeStorageArea {
+  protected primary: BlobStorageAreaInterface;
+  protected overflow: BlobStorageAreaInterface;
+  protected priorities: { [key: string]: number };
+
+  constructor(config: CompositeStorageConfigInterface) {
+    this.primary = config.primary;
+    this.overflow = config.overflow;
+    this.priorities = config.priorities ?? {};
+  }
+
+  /**
+   * Implements StorageArea::get() over both storages.
+   */
+  async get(
+    items?: string | string[] | { [key: string]: any } | null
+  ): Promise<{ [key: string]: any }> {
+    const defaults =
+      typeof items === "object" && items !== null && !Array.isArray(items)
+        ? items
+        : {};
+    const keys = items === defaults ? Object.keys(defaults) : items;
+    const values = {
+      ...(await this.overflow.get(keys)),
+      ...(await this.primary.get(keys)),
+    };
+    for (const key of Object.keys(defaults)) {
+      if (values[key] === undefined && defaults[key] !== undefined) {
+        values[key] = defaults[key];
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Implements StorageArea::set().
+   *
+   * Items are assigned to storages again with every set(), so keys move
+   * back to primary storage when there is space.
+   *
+   * @throws TooLargeDataError when items don't fit even into overflow.
+   */
+  async set(items: { [key: string]: any }): Promise<void> {
+    const primaryData = await this.primary.get(null);
+    const overflowData = await this.overflow.get(null);
+    const data = { ...overflowData, ...primaryData, ...items };
+
+    // Sort is stable, so keys of the same priority keep their order.
+    const keys = Object.keys(data)
+      .filter((key) => data[key] !== undefined)
+      .sort((a, b) => this.getPriority(b) - this.getPriority(a));
+
+    // Find out how many keys fit by halving, measured without writing.
+    let fitting = 0;
+    let failing = keys.length + 1;
+    let split = keys.length;
+    while (failing - fitting > 1) {
+      if (await this.primary.fits(this.pick(data, keys, split))) {
+        fitting = split;
+      } else {
+        failing = split;
+      }
+      split = Math.floor((fitting + failing) / 2);
+    }
+
+    // Spilled keys are added to overflow before primary drops them, so
+    // when context dies in between, they are stored twice rather than lost.
+    if (split < keys.length) {
+      await this.overflow.set(this.pick(data, keys.slice(split), Infinity));
+    }
+    try {
+      // Meta might not fit still, failed set() doesn't write anything.
+      for (;;) {
+        try {
+          await this.primary.set(this.assign(data, keys, split, primaryData));
+          break;
+        } catch (error) {
+          if (!(error instanceof TooLargeDataError) || split === 0) {
+            throw error;
+          }
+          split--;
+          await this.overflow.set(this.pick(data, [keys[split]], 1));
+        }
+      }
+    } catch (error) {
+      // Primary wasn't written, so overflow is put back.
+      await this.overflow.set(
+        this.assign(overflowData, Object.keys(overflowData), Infinity, data)
+      );
+      throw error;
+    }
+
+    // Keys which moved back to primary, or were removed.
+    const rest = keys.slice(split);
+    const stale = Object.keys(overflowData).filter(
+      (key) => !rest.includes(key)
+    );
+    if (stale.length > 0) {
+      await this.overflow.remove(stale);
+    }
+  }
+
+  /**
+   * Implements StorageArea::remove() in both storages.
+   */
+  async remove(keys: string | string[]): Promise<void> {
+    await this.primary.remove(keys);
+    await this.overflow.remove(keys);
+  }
+
+  /**
+   * Implements StorageArea::clear() of both storages.
+   */
+  async clear(): Promise<void> {
+    await this.primary.clear();
+    await this.overflow.clear();
+  }
+
+  /**
+   * Implements StorageArea::getBytesInUse() as a sum of both storages.
+   */
+  async getBytesInUse(keys?: string | string[] | null): Promise<number> {
+    return (
+      (await this.primary.getBytesInUse(keys)) +
+      (await this.overflow.getBytesInUse(keys))
+    );
+  }
+
+  /**
+   * Returns which storage holds key right now.
+   *
+   * @param key Key of item.
+   * @returns "primary", "overflow" or null when key is not stored.
+   */
+  async getTier(key: string): Promise<"primary" | "overflow" | null> {
+    if ((await this.primary.get(key))[key] !== undefined) {
+      return "primary";
+    }
+    if ((await this.overflow.get(key))[key] !== undefined) {
+      return "overflow";
+    }
+    return null;
+  }
+
+  protected getPriority(key: string): number {
+    return this.priorities[key] ?? 0;
+  }
+
+  /**
+   * Returns document of first keys.
+   *
+   * @param data All items.
+   * @param keys Keys sorted by priority.
+   * @param count How many of keys are picked.
+   * @returns Items of picked keys.
+   */
+  protected pick(
+    data: { [key: string]: any },
+    keys: string[],
+    count: number
+  ): { [key: string]: any } {
+    const items: { [key: string]: any } = {};
+    for (const key of keys.slice(0, count)) {
+      items[key] = data[key];
+    }
+    return items;
+  }
+
+  /**
+   * Returns items for one storage, removing keys which it shouldn't keep.
+   *
+   * Undefined values are left out of stored document, so one set() both
+   * writes and removes.
+   *
+   * @param data All items.
+   * @param keys Keys sorted by priority.
+   * @param count How many of keys go into storage.
+   * @param stored Items currently in storage.
+   * @returns Items to be set into storage.
+   */
+  protected assign(
+    data: { [key: string]: any },
+    keys: string[],
+    count: number,
+    stored: { [key: string]: any }
+  ): { [key: string]: any } {
+    const items: { [key: string]: any } = {};
+    for (const key of Object.keys(stored)) {
+      items[key] = undefined;
+    }
+    return { ...items, ...this.pick(data, keys, count) };
+  }
+}
+
+export { CompositeStorageArea };
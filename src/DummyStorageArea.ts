@@ -1,4 +1,6 @@
 import StorageArea = chrome.storage.StorageArea;
+import StorageChange = chrome.storage.StorageChange;
+import { StorageChangedEvent } from "./StorageChangedEvent";
 
 /**
  * Dummy storage.
@@ -10,6 +12,7 @@ class DummyStorageArea implements StorageArea {
   protected disableDummyWarning = false;
 
   public timeout = 0;
+  readonly onChanged = new StorageChangedEvent();
 
   constructor(disableDummyWarning = false) {
     this.disableDummyWarning = disableDummyWarning;
@@ -21,9 +24,12 @@ class DummyStorageArea implements StorageArea {
       console.warn(this.dummyWarning);
     }
 
+    const changes: { [key: string]: StorageChange } = {};
     for (const key of Object.keys(items)) {
+      changes[key] = { oldValue: this.data.get(key), newValue: items[key] };
       this.data.set(key, items[key]);
     }
+    this.onChanged.dispatch(changes);
     return new Promise((resolve) => {
       setTimeout(() => {
         resolve();
@@ -61,8 +67,13 @@ class DummyStorageArea implements StorageArea {
   }
 
   clear(): Promise<void> {
+    const changes: { [key: string]: StorageChange } = {};
+    this.data.forEach((value, key) => (changes[key] = { oldValue: value }));
     return new Promise((resolve) => {
       this.data.clear();
+      if (Object.keys(changes).length > 0) {
+        this.onChanged.dispatch(changes);
+      }
       setTimeout(() => {
         resolve();
       }, this.timeout);
@@ -76,17 +87,25 @@ class DummyStorageArea implements StorageArea {
     } else {
       arr = keys;
     }
+    const changes: { [key: string]: StorageChange } = {};
+    for (const key of arr) {
+      if (this.data.has(key)) {
+        changes[key] = { oldValue: this.data.get(key) };
+      }
+    }
     return new Promise((resolve) => {
       for (const key of arr) {
         this.data.delete(key);
       }
+      if (Object.keys(changes).length > 0) {
+        this.onChanged.dispatch(changes);
+      }
       setTimeout(() => {
         resolve();
       }, this.timeout);
     });
   }
 
-  // I don't use those in tests...
   getBytesInUse(callback: (bytesInUse: number) => void): void;
   getBytesInUse(keys?: string | string[] | null): Promise<number>;
   getBytesInUse(
@@ -94,7 +113,48 @@ class DummyStorageArea implements StorageArea {
     callback: (bytesInUse: number) => void
   ): void;
   getBytesInUse(keys?: any, callback?: any): void | Promise<number> {
-    throw new Error("Method not implemented.");
+    if (typeof keys === "function") {
+      callback = keys;
+      keys = null;
+    }
+
+    let arr: string[] = [];
+    if (keys === null || keys === undefined) {
+      arr = Array.from(this.data.keys());
+    } else if (typeof keys === "string") {
+      arr = [keys];
+    } else {
+      arr = keys;
+    }
+
+    const promise = new Promise<number>((resolve) => {
+      // Same as in chrome, size is key length plus length of JSON value.
+      // Values which can't be stringified reject.
+      let bytes = 0;
+      for (const key of arr) {
+        if (this.data.has(key)) {
+          bytes += new TextEncoder().encode(
+            key + JSON.stringify(this.data.get(key))
+          ).length;
+        }
+      }
+      setTimeout(() => {
+        resolve(bytes);
+      }, this.timeout);
+    });
+    if (callback) {
+      // Same as in chrome, callback is called without value on failure.
+      promise.then(
+        (value) => callback(value),
+        (error) => {
+          // tslint:disable-next-line:no-console
+          console.error(error);
+          callback();
+        }
+      );
+      return;
+    }
+    return promise;
   }
 }
 
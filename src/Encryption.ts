@@ -0,0 +1,179 @@
+import type { EncryptionConfigInterface, EncryptionMetaValues } from "./types";
+import { Base64Encoding } from "./encodings/Base64Encoding";
+import { DecryptionError } from "./errors/DecryptionError";
+
+/**
+ * AES-GCM encryption using native SubtleCrypto.
+ *
+ * Key is either given, or derived from passphrase by PBKDF2 with salt stored
+ * in meta. Every write has its own random IV, so changes of data are told
+ * by keyed hash of plain data.
+ */
+class Encryption {
+  protected config: EncryptionConfigInterface;
+  protected base64 = new Base64Encoding();
+  // Derived keys by salt, derivation is slow on purpose.
+  protected keys = new Map<string, Promise<CryptoKey>>();
+  // HMAC keys by encryption key they are derived from.
+  protected macKeys = new Map<CryptoKey, Promise<CryptoKey>>();
+
+  constructor(config: EncryptionConfigInterface) {
+    this.config = config;
+  }
+
+  /**
+   * Encrypts data.
+   *
+   * @param data Data to be encrypted.
+   * @param previous Encryption meta of stored data, its salt is reused.
+   * @returns Encrypted data and meta needed to decrypt them.
+   */
+  async encrypt(
+    data: Blob,
+    previous?: EncryptionMetaValues | null
+  ): Promise<{ data: Blob; meta: EncryptionMetaValues }> {
+    let salt: string | null = null;
+    if (!this.config.key) {
+      salt =
+        previous?.salt ??
+        this.base64.encode(crypto.getRandomValues(new Uint8Array(16)));
+    }
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      await this.getKey(salt),
+      await data.arrayBuffer()
+    );
+
+    return {
+      data: new Blob([encrypted]),
+      meta: {
+        algorithm: "AES-GCM",
+        iv: this.base64.encode(iv),
+        kdf: salt ? "PBKDF2" : null,
+        salt,
+        iterations: salt ? this.getIterations() : null,
+      },
+    };
+  }
+
+  /**
+   * Decrypts data.
+   *
+   * @param data Encrypted data.
+   * @param meta Encryption meta the data were encrypted with.
+   * @returns Decrypted data.
+   * @throws DecryptionError when key is wrong or data were tampered with.
+   */
+  async decrypt(data: Blob, meta: EncryptionMetaValues): Promise<Blob> {
+    if (meta.kdf && this.config.key) {
+      throw new DecryptionError("Data are encrypted with passphrase.");
+    }
+    if (!meta.kdf && !this.config.key) {
+      throw new DecryptionError("Data are encrypted with key.");
+    }
+
+    try {
+      const decrypted = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: this.base64.decode(meta.iv) },
+        await this.getKey(meta.salt, meta.iterations),
+        await data.arrayBuffer()
+      );
+      return new Blob([decrypted]);
+    } catch (error) {
+      throw new DecryptionError();
+    }
+  }
+
+  /**
+   * Calculates keyed hash of plain data.
+   *
+   * @param data Plain data.
+   * @param meta Encryption meta, hash is keyed by its key.
+   * @returns Hash in base64, or null when meta is for other kind of key.
+   */
+  async hash(data: Blob, meta: EncryptionMetaValues): Promise<string | null> {
+    if ((meta.kdf === null) !== !!this.config.key) {
+      return null;
+    }
+    const key = await this.getKey(meta.salt, meta.iterations);
+    let macKey = this.macKeys.get(key);
+    if (!macKey) {
+      macKey = this.deriveMacKey(key);
+      this.macKeys.set(key, macKey);
+    }
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      await macKey,
+      await data.arrayBuffer()
+    );
+    return this.base64.encode(new Uint8Array(signature));
+  }
+
+  protected getIterations(): number {
+    return this.config.iterations ?? 100000;
+  }
+
+  protected getKey(
+    salt: string | null,
+    iterations: number | null = this.getIterations()
+  ): Promise<CryptoKey> {
+    if (this.config.key) {
+      return Promise.resolve(this.config.key);
+    }
+
+    const cacheKey = salt + ":" + iterations;
+    let key = this.keys.get(cacheKey);
+    if (!key) {
+      key = this.deriveKey(salt ?? "", iterations ?? this.getIterations());
+      this.keys.set(cacheKey, key);
+    }
+    return key;
+  }
+
+  /**
+   * Derives HMAC key from encryption key, by encrypting constant with zero
+   * IV. Data are never encrypted with it, as their IVs are random.
+   */
+  protected async deriveMacKey(key: CryptoKey): Promise<CryptoKey> {
+    const material = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv: new Uint8Array(12) },
+      key,
+      new Uint8Array(32)
+    );
+    return crypto.subtle.importKey(
+      "raw",
+      material.slice(0, 32),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"]
+    );
+  }
+
+  protected async deriveKey(
+    salt: string,
+    iterations: number
+  ): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(this.config.passphrase),
+      "PBKDF2",
+      false,
+      ["deriveKey"]
+    );
+    return crypto.subtle.deriveKey(
+      {
+        name: "PBKDF2",
+        salt: this.base64.decode(salt),
+        iterations,
+        hash: "SHA-256",
+      },
+      baseKey,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"]
+    );
+  }
+}
+
+export { Encryption };
@@ -0,0 +1,83 @@
+import StorageArea = chrome.storage.StorageArea;
+import { InvalidConfigError } from "./errors/InvalidConfigError";
+
+/**
+ * Registry of blob storage namespaces sharing one StorageArea.
+ *
+ * Every namespace reserves the most bytes it can take, so together they can
+ * be kept within shared quota. Default namespace is an empty string.
+ */
+class NamespaceRegistry {
+  readonly keyRegistry = "__storage_namespaces";
+  protected storage: StorageArea;
+
+  constructor(storage: StorageArea) {
+    this.storage = storage;
+  }
+
+  /**
+   * Lists namespaces registered in storage.
+   *
+   * @returns Names of namespaces.
+   */
+  async list(): Promise<string[]> {
+    return Object.keys(await this.getReservations());
+  }
+
+  /**
+   * Returns reserved bytes of every namespace.
+   *
+   * @returns Object with namespace names as keys.
+   */
+  async getReservations(): Promise<{ [namespace: string]: number }> {
+    const data = await this.storage.get(this.keyRegistry);
+    return data[this.keyRegistry] ?? {};
+  }
+
+  /**
+   * Registers namespace, or updates its reservation.
+   *
+   * Registry is written only when reservation changes, as every write
+   * counts against write quota of synced storage.
+   *
+   * @param namespace Name of namespace.
+   * @param reserved Bytes namespace can take at most.
+   * @param quota Shared quota of all namespaces, not enforced if undefined.
+   * @throws InvalidConfigError when namespaces would exceed quota.
+   */
+  async register(
+    namespace: string,
+    reserved: number,
+    quota?: number
+  ): Promise<void> {
+    const stored = await this.getReservations();
+    const reservations = { ...stored, [namespace]: reserved };
+
+    let total = 0;
+    for (const name of Object.keys(reservations)) {
+      total += reservations[name];
+    }
+    if (quota !== undefined && total > quota) {
+      throw new InvalidConfigError(
+        `Namespaces need up to ${total} bytes, but shared quota is ${quota} bytes.`
+      );
+    }
+
+    if (stored[namespace] !== reserved) {
+      await this.storage.set({ [this.keyRegistry]: reservations });
+    }
+  }
+
+  /**
+   * Removes namespace from registry, its data are kept.
+   *
+   * @param namespace Name of namespace.
+   */
+  async unregister(namespace: string): Promise<void> {
+    const reservations = { ...(await this.getReservations()) };
+    delete reservations[namespace];
+    await this.storage.set({ [this.keyRegistry]: reservations });
+  }
+}
+
+export { NamespaceRegistry };
@@ -0,0 +1,95 @@
+import type { SnapshotMetaValues } from "./types";
+
+import StorageArea = chrome.storage.StorageArea;
+import { SnapshotNotFoundError } from "./errors/SnapshotNotFoundError";
+
+/**
+ * Ring buffer of previous stored documents.
+ *
+ * Index of snapshots is kept under one key, data of every snapshot under
+ * its own. The oldest snapshots are dropped when history is full.
+ */
+class SnapshotHistory {
+  readonly keyIndex: string;
+  readonly keyPrefix: string;
+  protected storage: StorageArea;
+  protected size: number;
+
+  /**
+   * @param storage Storage snapshots are kept in.
+   * @param size How many snapshots are kept at most.
+   * @param namespace Prefix of keys, if any.
+   */
+  constructor(storage: StorageArea, size: number, namespace?: string) {
+    const prefix = namespace ? namespace + ":" : "";
+    this.keyIndex = prefix + "__storage_snapshots";
+    this.keyPrefix = prefix + "__storage_snapshot_";
+    this.storage = storage;
+    this.size = size;
+  }
+
+  /**
+   * Lists snapshots in history.
+   *
+   * @returns Meta of snapshots, the oldest first.
+   */
+  async list(): Promise<SnapshotMetaValues[]> {
+    const data = await this.storage.get(this.keyIndex);
+    return data[this.keyIndex] ?? [];
+  }
+
+  /**
+   * Adds snapshot, unless the newest one is of the same document.
+   *
+   * @param meta Meta of snapshot, id is assigned.
+   * @param data Encoded snapshot.
+   * @returns Id of the newest snapshot.
+   */
+  async push(
+    meta: Omit<SnapshotMetaValues, "id">,
+    data: string
+  ): Promise<number> {
+    const snapshots = await this.list();
+    const newest = snapshots[snapshots.length - 1];
+    if (
+      newest &&
+      newest.hash === meta.hash &&
+      newest.lastUpdated === meta.lastUpdated
+    ) {
+      return newest.id;
+    }
+
+    const id = newest ? newest.id + 1 : 1;
+    const kept = [...snapshots, { ...meta, id }];
+    const dropped = kept.splice(0, Math.max(kept.length - this.size, 0));
+
+    // Data first, so index never points to missing snapshot.
+    await this.storage.set({ [this.keyPrefix + id]: data });
+    await this.storage.set({ [this.keyIndex]: kept });
+    if (dropped.length > 0) {
+      await this.storage.remove(
+        dropped.map((snapshot) => this.keyPrefix + snapshot.id)
+      );
+    }
+    return id;
+  }
+
+  /**
+   * Reads snapshot.
+   *
+   * @param id Id of snapshot.
+   * @returns Meta and encoded data of snapshot.
+   * @throws SnapshotNotFoundError when snapshot is not in history.
+   */
+  async read(id: number): Promise<[SnapshotMetaValues, string]> {
+    const meta = (await this.list()).find((snapshot) => snapshot.id === id);
+    const key = this.keyPrefix + id;
+    const data = meta ? (await this.storage.get(key))[key] : undefined;
+    if (!meta || typeof data !== "string") {
+      throw new SnapshotNotFoundError(id);
+    }
+    return [meta, data];
+  }
+}
+
+export { SnapshotHistory };
@@ -0,0 +1,40 @@
+import type { StorageChangedListener } from "./types";
+import StorageChange = chrome.storage.StorageChange;
+
+/**
+ * Event compatible with StorageArea::onChanged.
+ */
+class StorageChangedEvent {
+  protected listeners: StorageChangedListener[] = [];
+
+  addListener(callback: StorageChangedListener): void {
+    if (!this.hasListener(callback)) {
+      this.listeners.push(callback);
+    }
+  }
+
+  removeListener(callback: StorageChangedListener): void {
+    this.listeners = this.listeners.filter((listener) => listener !== callback);
+  }
+
+  hasListener(callback: StorageChangedListener): boolean {
+    return this.listeners.indexOf(callback) !== -1;
+  }
+
+  hasListeners(): boolean {
+    return this.listeners.length > 0;
+  }
+
+  /**
+   * Calls all listeners with changes.
+   *
+   * @param changes Changed keys with their old and new values.
+   */
+  dispatch(changes: { [key: string]: StorageChange }): void {
+    for (const listener of this.listeners) {
+      listener(changes);
+    }
+  }
+}
+
+export { StorageChangedEvent };
@@ -0,0 +1,84 @@
+import StorageArea = chrome.storage.StorageArea;
+import type { LockLeaseValues } from "./types";
+import { ConflictError } from "./errors/ConflictError";
+
+/**
+ * Lease based lock kept in underlying storage, shared by all contexts.
+ *
+ * StorageArea has no compare-and-set, so lease is written and read back
+ * after a while, when other context writes at the same time, the last one wins.
+ * Lease of crashed context expires on its own.
+ */
+class StorageLock {
+  protected storage: StorageArea;
+  protected key: string;
+  protected lease: number;
+  // Time for concurrent writes of lease to settle.
+  protected readonly settleDelay = 10;
+  protected readonly pollInterval = 50;
+
+  /**
+   * @param storage Underlying storage.
+   * @param key Key of lease in storage.
+   * @param lease Milliseconds after which lease expires.
+   */
+  constructor(storage: StorageArea, key: string, lease: number) {
+    this.storage = storage;
+    this.key = key;
+    this.lease = lease;
+  }
+
+  /**
+   * Waits until lease is ours.
+   *
+   * Every call gets its own owner id, so calls of one context wait for each
+   * other as well.
+   *
+   * @returns Owner id to release lease with.
+   * @throws ConflictError when other owner holds lease for too long.
+   */
+  async acquire(): Promise<string> {
+    const owner = Math.random().toString(36).slice(2) + Date.now();
+    // Lease of other context expires by then, unless it's renewed.
+    const deadline = Date.now() + 2 * this.lease;
+    while (true) {
+      const held = await this.getLease();
+      if (!held || held.expires <= Date.now()) {
+        const lease: LockLeaseValues = {
+          owner,
+          expires: Date.now() + this.lease,
+        };
+        await this.storage.set({ [this.key]: lease });
+        await this.sleep(this.settleDelay);
+        if ((await this.getLease())?.owner === owner) {
+          return owner;
+        }
+      }
+      if (Date.now() > deadline) {
+        throw new ConflictError("Storage is locked by other context.");
+      }
+      await this.sleep(this.pollInterval);
+    }
+  }
+
+  /**
+   * Gives lease up, if it's still ours.
+   *
+   * @param owner Id returned by acquire().
+   */
+  async release(owner: string): Promise<void> {
+    if ((await this.getLease())?.owner === owner) {
+      await this.storage.remove(this.key);
+    }
+  }
+
+  protected async getLease(): Promise<LockLeaseValues | undefined> {
+    return (await this.storage.get(this.key))[this.key];
+  }
+
+  protected sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+export { StorageLock };
@@ -1,8 +1,45 @@
-import { describe, it, expect } from "vitest";
-import { BlobStorageArea, BlobStorageConfig } from "../BlobStorageArea";
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import {
+  BlobStorageArea,
+  BlobStorageConfig as createConfig,
+  CorruptedDataError,
+  DecryptionError,
+  InvalidConfigError,
+  NamespaceRegistry,
+  SchemaVersionError,
+  FormatVersionError,
+  TooLargeDataError,
+  ConflictError,
+  CompositeStorageArea,
+  SnapshotNotFoundError,
+} from "../BlobStorageArea";
 import { DummyStorageArea } from "../DummyStorageArea";
+import { BrowserBackend } from "../backends/BrowserBackend";
+import { createBackend as createBrowserBackend } from "../backends/createBackend.browser";
 import { LastCompressStates, StorageStates } from "../enums";
-import { BlobStorageConfigInterface } from "../types";
+import { BackendName, BlobStorageConfigInterface } from "../types";
+
+// Run with BLOB_STORAGE_BACKEND=browser to test browser-native backend.
+const backend = (process.env.BLOB_STORAGE_BACKEND ?? "auto") as BackendName;
+const BlobStorageConfig = (configOverride = {}) =>
+  createConfig({ backend, ...configOverride });
+
+// Hash of {"key":"ABCDEF"}, md5 in node and sha-256 in browser.
+const keyHash =
+  backend === "browser"
+    ? "41b30d4eeccb7c69442e8d8747f1a4407ab8b905811f1e02fc1a9b8caf43bc2d"
+    : "a87bdb63457038f417c2281643ad591d";
+
+/**
+ * Returns key of slot which stored meta references.
+ */
+const storedSlotKey = async (area: DummyStorageArea, index: number) => {
+  const { __storage_meta } = await area.get("__storage_meta");
+  return `__storage_stack_${index}_${__storage_meta.slotTokens[index]}`;
+};
+
+// Slot key without token of write.
+const slotOf = (key: string) => key.replace(/_[0-9a-z]{6}$/, "");
 
 describe("Initialized values", async () => {
   const storage = await BlobStorageArea.create(
@@ -74,7 +111,7 @@ describe("Basic setter behavior", async () => {
     const json = { key: "ABCDEF" };
     await storage.set(json);
     await expect(storage.getCurrentUsed()).resolves.toBe(16);
-    expect(storage.getHash()).toBe("a87bdb63457038f417c2281643ad591d");
+    expect(storage.getHash()).toBe(keyHash);
   });
 
   it("to have already set some meta, new BlobStorage is able to see it", async () => {
@@ -87,7 +124,7 @@ describe("Basic setter behavior", async () => {
       })
     );
     await expect(duplicateStorage.getCurrentUsed()).resolves.toBe(16);
-    expect(duplicateStorage.getHash()).toBe("a87bdb63457038f417c2281643ad591d");
+    expect(duplicateStorage.getHash()).toBe(keyHash);
   });
 
   it("to fail to set too large", async () => {
@@ -159,7 +196,7 @@ describe("to make sure sharing one StorageArea works", async () => {
 
     await expect(storage1.getCurrentUsed()).resolves.toBe(16);
     await expect(storage2.getCurrentUsed()).resolves.toBe(0);
-    expect(storage1.getHash()).toBe("a87bdb63457038f417c2281643ad591d");
+    expect(storage1.getHash()).toBe(keyHash);
     expect(storage2.getHash()).toBeNull();
     await expect(storage1.isUpToDate()).resolves.toBeTruthy();
     await expect(storage2.isUpToDate()).resolves.toBeFalsy();
@@ -267,3 +304,1927 @@ describe("BlobStorage compress and decompress - bigger, longer, uncut!", async (
     expect(value).toStrictEqual(json);
   });
 });
+
+describe("Removing keys", async () => {
+  const dummyArea = new DummyStorageArea(true);
+  const storage = await BlobStorageArea.create(
+    BlobStorageConfig({
+      slotSize: 16,
+      slotCount: 16,
+      storage: dummyArea,
+    })
+  );
+
+  const json = { key1: "val1", key2: "val2", key3: "val3", key4: "val4" };
+  await storage.set(json);
+
+  it("to remove single key", async () => {
+    const hash = storage.getHash();
+    await storage.remove("key2");
+    expect(storage.getHash()).not.toBe(hash);
+    const value = await storage.get(["key1", "key2"]);
+    expect(value).toStrictEqual({ key1: "val1" });
+  });
+
+  it("to remove multiple keys with callback", async () => {
+    await new Promise<void>((resolve) => {
+      storage.remove(["key3", "key4"], () => resolve());
+    });
+    const value = await storage.get();
+    expect(value).toStrictEqual({ key1: "val1" });
+  });
+
+  it("to call callback and report error when removing fails", async () => {
+    const failingArea = new DummyStorageArea(true);
+    const failing = await BlobStorageArea.create(
+      BlobStorageConfig({ storage: failingArea })
+    );
+    await failing.set({ key1: "val1" });
+    const error = new Error("Storage is broken.");
+    failingArea.set = () => Promise.reject(error);
+
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    try {
+      await new Promise<void>((resolve) => {
+        failing.remove("key1", () => resolve());
+      });
+      expect(consoleError).toHaveBeenCalledWith(error);
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+
+  it("to be seen by another instance", async () => {
+    const duplicateStorage = await BlobStorageArea.create(
+      BlobStorageConfig({
+        slotSize: 16,
+        slotCount: 16,
+        storage: dummyArea,
+      })
+    );
+    await duplicateStorage.set({ key5: "val5" });
+    await expect(duplicateStorage.getCurrentUsed()).resolves.toBe(
+      JSON.stringify({ key1: "val1", key5: "val5" }).length
+    );
+  });
+});
+
+describe("Bytes in use", async () => {
+  const dummyArea = new DummyStorageArea(true);
+  const storage = await BlobStorageArea.create(
+    BlobStorageConfig({
+      slotSize: 16,
+      slotCount: 4,
+      storage: dummyArea,
+    })
+  );
+
+  await storage.set({ key1: "val1", key2: "val2" });
+
+  it("to count single keys", async () => {
+    await expect(storage.getBytesInUse("key1")).resolves.toBe(10);
+    await expect(storage.getBytesInUse(["key1", "key2"])).resolves.toBe(20);
+    await expect(storage.getBytesInUse(["missing"])).resolves.toBe(0);
+  });
+
+  it("to count whole storage with overhead", async () => {
+    const expected = await dummyArea.getBytesInUse([
+      "__storage_meta",
+      await storedSlotKey(dummyArea, 0),
+      await storedSlotKey(dummyArea, 1),
+    ]);
+    await expect(storage.getBytesInUse(null)).resolves.toBe(expected);
+    const value = await new Promise<number>((resolve) => {
+      storage.getBytesInUse((bytes) => resolve(bytes));
+    });
+    expect(value).toBe(expected);
+  });
+});
+
+describe("Bytes in use with compression", async () => {
+  const storage = await BlobStorageArea.create(
+    BlobStorageConfig({
+      slotSize: 512,
+      slotCount: 49,
+      disableDummyWarning: true,
+      compress: true,
+    })
+  );
+
+  const json = require("./data/manyKb.json");
+  await storage.set(json);
+
+  it("to attribute compressed size to keys", async () => {
+    const keys = Object.keys(json);
+    const all = await storage.getBytesInUse(keys);
+    const one = await storage.getBytesInUse(keys[0]);
+    expect(one).toBeGreaterThan(0);
+    expect(one).toBeLessThan(new Blob([JSON.stringify(json)]).size);
+    expect(all).toBeLessThanOrEqual(await storage.getBytesInUse(null));
+  });
+});
+
+describe("Writing only changed slots", async () => {
+  const dummyArea = new DummyStorageArea(true);
+  const storage = await BlobStorageArea.create(
+    BlobStorageConfig({
+      slotSize: 8,
+      slotCount: 8,
+      storage: dummyArea,
+    })
+  );
+
+  // Track which slots were written into underlying storage.
+  let written: string[] = [];
+  const originalSet = dummyArea.set.bind(dummyArea);
+  dummyArea.set = (items: { [key: string]: any }) => {
+    written.push(
+      ...Object.keys(items).filter((key) => key !== "__storage_meta")
+    );
+    return originalSet(items);
+  };
+
+  it("to write all slots first time", async () => {
+    // Stringified to 28 bytes, so it takes 4 slots.
+    await storage.set({ aaaaaa: "AAAAAA", bbbbbb: "B" });
+    expect(written.map(slotOf)).toStrictEqual([
+      "__storage_stack_0",
+      "__storage_stack_1",
+      "__storage_stack_2",
+      "__storage_stack_3",
+    ]);
+  });
+
+  it("to write only the changed slot", async () => {
+    written = [];
+    await storage.set({ bbbbbb: "C" });
+    expect(written.map(slotOf)).toStrictEqual(["__storage_stack_3"]);
+    await expect(storage.get("bbbbbb")).resolves.toStrictEqual({
+      bbbbbb: "C",
+    });
+  });
+
+  it("to remove trailing slots", async () => {
+    written = [];
+    await storage.remove("bbbbbb");
+    expect(written.map(slotOf)).toStrictEqual(["__storage_stack_2"]);
+    const keys = Object.keys(await dummyArea.get(null));
+    expect(keys.map(slotOf)).not.toContain("__storage_stack_3");
+    await expect(storage.get()).resolves.toStrictEqual({ aaaaaa: "AAAAAA" });
+  });
+
+  it("to write changed slots at once and skip empty removal", async () => {
+    const area = new DummyStorageArea(true);
+    const counted = await BlobStorageArea.create(
+      BlobStorageConfig({ slotSize: 8, slotCount: 8, storage: area })
+    );
+    const calls: string[] = [];
+    const set = area.set.bind(area);
+    const remove = area.remove.bind(area);
+    area.set = (items: { [key: string]: any }) => {
+      calls.push("set");
+      return set(items);
+    };
+    area.remove = (keys: string | string[]) => {
+      calls.push("remove");
+      return remove(keys);
+    };
+
+    await counted.set({ aaaaaa: "AAAAAA", bbbbbb: "B" });
+    expect(calls).toStrictEqual(["set", "set"]);
+    calls.length = 0;
+    await counted.set({ aaaaaa: "CCCCCC", bbbbbb: "D" });
+    expect(calls).toStrictEqual(["set", "set", "remove"]);
+    calls.length = 0;
+    await counted.set({ bbbbbb: "D" });
+    expect(calls).toStrictEqual(["set"]);
+  });
+
+  it("to write all slots again after clear", async () => {
+    await storage.clear();
+    written = [];
+    await storage.set({ aaaaaa: "AAAAAA" });
+    expect(written.length).toBe(3);
+  });
+});
+
+describe("Crash-safe writes", async () => {
+  const dummyArea = new DummyStorageArea(true);
+  const config = BlobStorageConfig({
+    slotSize: 8,
+    slotCount: 8,
+    storage: dummyArea,
+  });
+  const storage = await BlobStorageArea.create(config);
+  await storage.set({ key: "old value" });
+
+  it("to keep old document when killed before commit", async () => {
+    // Simulate crash by failing the meta write.
+    const originalSet = dummyArea.set.bind(dummyArea);
+    dummyArea.set = (items: { [key: string]: any }) => {
+      if (items.__storage_meta) {
+        return Promise.reject(new Error("Killed"));
+      }
+      return originalSet(items);
+    };
+    await expect(storage.set({ key: "new value" })).rejects.toThrow("Killed");
+    dummyArea.set = originalSet;
+
+    const reader = await BlobStorageArea.create(config);
+    await expect(reader.get("key")).resolves.toStrictEqual({
+      key: "old value",
+    });
+  });
+
+  it("to flip to new generation on commit", async () => {
+    await storage.set({ key: "new value" });
+    const reader = await BlobStorageArea.create(config);
+    await expect(reader.get("key")).resolves.toStrictEqual({
+      key: "new value",
+    });
+  });
+});
+
+describe("Integrity verification", async () => {
+  const dummyArea = new DummyStorageArea(true);
+  const config = BlobStorageConfig({
+    slotSize: 8,
+    slotCount: 8,
+    storage: dummyArea,
+  });
+  const storage = await BlobStorageArea.create({
+    ...config,
+    fallbackToCache: true,
+  });
+  await storage.set({ key: "some value" });
+
+  // Damage second slot behind storage's back.
+  const slotKey = await storedSlotKey(dummyArea, 1);
+  const slot = await dummyArea.get(slotKey);
+  await dummyArea.set({ [slotKey]: slot[slotKey].replace("s", "z") });
+
+  it("to throw with corrupted slots", async () => {
+    const reader = await BlobStorageArea.create(config);
+    const error = await reader.get("key").catch((e) => e);
+    expect(error).toBeInstanceOf(CorruptedDataError);
+    expect(error.slots).toStrictEqual([1]);
+    expect(error.expectedHash).toBe(storage.getHash());
+  });
+
+  it("to refuse to merge into corrupted data", async () => {
+    await expect(storage.set({ other: 1 })).rejects.toThrow(
+      "Stored data are corrupted in slots 1."
+    );
+  });
+
+  it("to fall back to local cache", async () => {
+    // Missing key forces reading from storage.
+    await expect(storage.get(["key", "missing"])).resolves.toStrictEqual({
+      key: "some value",
+    });
+  });
+});
+
+describe("Change notifications", async () => {
+  const dummyArea = new DummyStorageArea(true);
+  const config = BlobStorageConfig({
+    slotSize: 16,
+    slotCount: 8,
+    storage: dummyArea,
+  });
+  const storage = await BlobStorageArea.create(config);
+  const other = await BlobStorageArea.create(config);
+
+  it("to manage listeners", async () => {
+    const listener = () => undefined;
+    storage.onChanged.addListener(listener);
+    expect(storage.onChanged.hasListener(listener)).toBeTruthy();
+    storage.onChanged.removeListener(listener);
+    expect(storage.onChanged.hasListener(listener)).toBeFalsy();
+  });
+
+  it("to emit local changes", async () => {
+    const changes: { [key: string]: any }[] = [];
+    const listener = (change: { [key: string]: any }) => changes.push(change);
+    storage.onChanged.addListener(listener);
+
+    await storage.set({ key1: "val1", key2: "val2" });
+    await storage.set({ key1: "val1", key2: "changed" });
+    await storage.remove("key1");
+    await storage.clear();
+    storage.onChanged.removeListener(listener);
+
+    expect(changes).toStrictEqual([
+      { key1: { newValue: "val1" }, key2: { newValue: "val2" } },
+      { key2: { oldValue: "val2", newValue: "changed" } },
+      { key1: { oldValue: "val1" } },
+      { key2: { oldValue: "changed" } },
+    ]);
+  });
+
+  it("to emit changes from other context", async () => {
+    const changes = new Promise<{ [key: string]: any }>((resolve) => {
+      other.onChanged.addListener(resolve);
+    });
+    await storage.set({ remote: "value" });
+    await expect(changes).resolves.toStrictEqual({
+      remote: { newValue: "value" },
+    });
+    await expect(other.isUpToDate()).resolves.toBeTruthy();
+  });
+
+  it("to handle changes from other context in queue", async () => {
+    let release = () => undefined as void;
+    const held = new Promise<void>((resolve) => (release = resolve));
+    let holding = false;
+    const heldArea: DummyStorageArea = Object.assign(Object.create(dummyArea), {
+      async get(keys: any) {
+        if (holding) {
+          holding = false;
+          await held;
+        }
+        return dummyArea.get(keys);
+      },
+    });
+    const busy = await BlobStorageArea.create({ ...config, storage: heldArea });
+    const changes: { [key: string]: any }[] = [];
+    busy.onChanged.addListener((change) => changes.push(change));
+
+    holding = true;
+    const reading = busy.get(null);
+    await storage.set({ queued: "value" });
+    expect(changes).toHaveLength(0);
+
+    release();
+    await reading;
+    await busy.flush();
+    expect(changes).toHaveLength(1);
+    expect(changes[0].queued).toStrictEqual({ newValue: "value" });
+  });
+});
+
+describe("Compression codecs", async () => {
+  const dummyArea = new DummyStorageArea(true);
+  const config = BlobStorageConfig({
+    slotSize: 64,
+    slotCount: 64,
+    storage: dummyArea,
+    compress: true,
+  });
+  const json = { text: "Lorem ipsum dolor sit amet. ".repeat(20) };
+
+  it("to compress with every built-in codec", async () => {
+    // Brotli is not available in CompressionStream.
+    const codecs = ["deflate", "gzip", "brotli"];
+    for (const codec of backend === "browser" ? codecs.slice(0, 2) : codecs) {
+      const storage = await BlobStorageArea.create({ ...config, codec });
+      await storage.set(json);
+      expect(storage.getLastCodec()).toBe(codec);
+      expect(storage.getLastCompressState()).toBe(
+        LastCompressStates.Compressed
+      );
+      const reader = await BlobStorageArea.create(config);
+      await expect(reader.get("text")).resolves.toStrictEqual(json);
+    }
+  });
+
+  it("to store uncompressed with none codec", async () => {
+    const storage = await BlobStorageArea.create({ ...config, codec: "none" });
+    await storage.set(json);
+    expect(storage.getLastCodec()).toBeNull();
+    expect(storage.getLastCompressState()).toBe(
+      LastCompressStates.Uncomporessed
+    );
+  });
+
+  it("to use custom codec", async () => {
+    const reverse = (data: Blob) =>
+      data.text().then((text) => new Blob([text.split("").reverse().join("")]));
+    const codec = { id: "reverse", compress: reverse, decompress: reverse };
+    const storage = await BlobStorageArea.create({ ...config, codec });
+    await storage.set(json);
+    expect(storage.getLastCodec()).toBe("reverse");
+
+    // Other instance doesn't know the codec.
+    const reader = await BlobStorageArea.create(config);
+    await expect(reader.get("text")).rejects.toThrow(
+      'Unknown codec "reverse".'
+    );
+    const sameCodecReader = await BlobStorageArea.create({ ...config, codec });
+    await expect(sameCodecReader.get("text")).resolves.toStrictEqual(json);
+  });
+});
+
+describe("Backends", async () => {
+  const dummyArea = new DummyStorageArea(true);
+  const config = createConfig({
+    slotSize: 64,
+    slotCount: 64,
+    storage: dummyArea,
+    compress: true,
+  });
+  const json = { text: "Lorem ipsum dolor sit amet. ".repeat(20) };
+
+  it("to read browser compressed data in node and back", async () => {
+    const browser = await BlobStorageArea.create({
+      ...config,
+      backend: "browser",
+    });
+    const node = await BlobStorageArea.create({ ...config, backend: "node" });
+
+    await browser.set(json);
+    await expect(node.get("text")).resolves.toStrictEqual(json);
+    await node.set({ other: 1 });
+    await expect(browser.get(["text", "other"])).resolves.toStrictEqual({
+      ...json,
+      other: 1,
+    });
+  });
+
+  it("to create only browser backend in browser build", async () => {
+    await expect(createBrowserBackend("auto")).resolves.toBeInstanceOf(
+      BrowserBackend
+    );
+    await expect(createBrowserBackend("node")).rejects.toThrow(
+      InvalidConfigError
+    );
+  });
+
+  it("to refuse brotli in browser", async () => {
+    const browser = await BlobStorageArea.create({
+      ...config,
+      backend: "browser",
+      codec: "brotli",
+    });
+    await expect(browser.set(json)).rejects.toThrow(
+      'Codec "brotli" is not supported in browser.'
+    );
+  });
+});
+
+describe("Slot encodings", async () => {
+  const dummyArea = new DummyStorageArea(true);
+  const config = BlobStorageConfig({
+    slotSize: 8,
+    slotCount: 64,
+    storage: dummyArea,
+  });
+
+  it("to never split multi-byte characters between slots", async () => {
+    const storage = await BlobStorageArea.create(config);
+    // Every emoji is 4 bytes and accented letters are 2 bytes.
+    const json = { text: "čšř😀😀😀ěé" };
+    await storage.set(json);
+    const reader = await BlobStorageArea.create(config);
+    await expect(reader.get("text")).resolves.toStrictEqual(json);
+  });
+
+  it("to round-trip compressed data in every encoding", async () => {
+    const json = { text: "Příliš žluťoučký kůň 😀 ".repeat(10) };
+    for (const slotEncoding of ["base64", "base32768"]) {
+      const storage = await BlobStorageArea.create({
+        ...config,
+        compress: true,
+        slotEncoding,
+      });
+      await storage.set(json);
+      const reader = await BlobStorageArea.create(config);
+      await expect(reader.get("text")).resolves.toStrictEqual(json);
+    }
+  });
+
+  it("to store uncompressed data in base32768", async () => {
+    const storage = await BlobStorageArea.create({
+      ...config,
+      slotEncoding: "base32768",
+    });
+    for (const text of ["", "a", "ab", "abc", "abcdefghijklmnopq"]) {
+      await storage.set({ text });
+      const reader = await BlobStorageArea.create(config);
+      await expect(reader.get("text")).resolves.toStrictEqual({ text });
+    }
+  });
+
+  it("to report effective capacity", async () => {
+    const raw = await BlobStorageArea.create(config);
+    await expect(raw.getMaxCapacity()).resolves.toBe(512);
+    const base64 = await BlobStorageArea.create({
+      ...config,
+      compress: true,
+    });
+    await expect(base64.getMaxCapacity()).resolves.toBe(384);
+    // Every character takes 3 bytes in UTF-8.
+    const base32768 = await BlobStorageArea.create({
+      ...config,
+      compress: true,
+      slotEncoding: "base32768",
+    });
+    await expect(base32768.getMaxCapacity()).resolves.toBe(240);
+    const utf16 = await BlobStorageArea.create({
+      ...config,
+      compress: true,
+      slotUnit: "utf16",
+    });
+    await expect(utf16.getMaxCapacity()).resolves.toBe(960);
+  });
+
+  it("to pack base32768 into slots measured in UTF-16", async () => {
+    const area = new DummyStorageArea(true);
+    const storage = await BlobStorageArea.create({
+      ...config,
+      storage: area,
+      compress: true,
+      slotUnit: "utf16",
+    });
+    const json = { text: "Příliš žluťoučký kůň 😀 ".repeat(10) };
+    await storage.set(json);
+    const stored = await area.get(null);
+    expect(stored.__storage_meta.slotEncoding).toBe("base32768");
+    for (const key of Object.keys(stored)) {
+      if (key.includes("stack")) {
+        expect(stored[key].length).toBeLessThanOrEqual(8);
+      }
+    }
+    const reader = await BlobStorageArea.create({ ...config, storage: area });
+    await expect(reader.get("text")).resolves.toStrictEqual(json);
+  });
+
+  it("to reject raw encoding of compressed data", async () => {
+    await expect(
+      BlobStorageArea.create({ ...config, compress: true, slotEncoding: "raw" })
+    ).rejects.toThrow("Raw slot encoding can't store compressed data.");
+  });
+});
+
+describe("Quota-aware configuration", async () => {
+  const syncLimits = {
+    QUOTA_BYTES: 102400,
+    QUOTA_BYTES_PER_ITEM: 8192,
+    MAX_ITEMS: 512,
+  };
+
+  it("to derive slots from limits", async () => {
+    const dummyArea = new DummyStorageArea(true);
+    const storage = await BlobStorageArea.create(
+      BlobStorageConfig({
+        storage: dummyArea,
+        limits: syncLimits,
+        autoSlots: true,
+      })
+    );
+    const capacity = await storage.getMaxCapacity();
+    expect(capacity).toBeGreaterThan(40000);
+    expect(capacity).toBeLessThan(syncLimits.QUOTA_BYTES / 2);
+
+    // Fill it up with characters escaped in document and again in slot.
+    const text = '"\\'.repeat(Math.floor(capacity / 8) - 10);
+    await storage.set({ text });
+    await expect(dummyArea.getBytesInUse(null)).resolves.toBeLessThanOrEqual(
+      syncLimits.QUOTA_BYTES
+    );
+    for (const key of Object.keys(await dummyArea.get(null))) {
+      await expect(dummyArea.getBytesInUse(key)).resolves.toBeLessThanOrEqual(
+        syncLimits.QUOTA_BYTES_PER_ITEM
+      );
+    }
+    await expect(storage.get("text")).resolves.toStrictEqual({ text });
+  });
+
+  it("to read limits from storage itself", async () => {
+    const dummyArea = Object.assign(new DummyStorageArea(true), syncLimits);
+    const storage = await BlobStorageArea.create(
+      BlobStorageConfig({ storage: dummyArea, autoSlots: true })
+    );
+    await expect(storage.getMaxCapacity()).resolves.toBeGreaterThan(40000);
+  });
+
+  it("to reject impossible configurations", async () => {
+    const config = BlobStorageConfig({ limits: syncLimits });
+    await expect(
+      BlobStorageArea.create({ ...config, slotSize: 8192, slotCount: 4 })
+    ).rejects.toThrow(InvalidConfigError);
+    await expect(
+      BlobStorageArea.create({
+        ...config,
+        limits: { ...syncLimits, MAX_ITEMS: undefined },
+        slotSize: 8,
+        slotCount: 1000,
+      })
+    ).rejects.toThrow("but storage allows 8192 bytes per item.");
+    await expect(
+      BlobStorageArea.create({ ...config, slotSize: 4096, slotCount: 16 })
+    ).rejects.toThrow("but storage allows 102400 bytes.");
+    await expect(
+      BlobStorageArea.create({ ...config, autoSlots: true, limits: undefined })
+    ).rejects.toThrow("Storage limits are unknown.");
+  });
+
+  it("to report capacity as upper bound of escaped slots", async () => {
+    const storage = await BlobStorageArea.create(
+      BlobStorageConfig({
+        slotSize: 16,
+        slotCount: 4,
+        limits: { QUOTA_BYTES: 100000 },
+      })
+    );
+    await expect(storage.getMaxCapacity()).resolves.toBe(64);
+    // Quotes of keys and values count twice.
+    await expect(storage.set({ k: "x".repeat(54) })).rejects.toThrow(
+      TooLargeDataError
+    );
+    await storage.set({ k: "x".repeat(50) });
+  });
+});
+
+describe("Encryption", async () => {
+  const dummyArea = new DummyStorageArea(true);
+  const config = BlobStorageConfig({
+    slotSize: 64,
+    slotCount: 64,
+    storage: dummyArea,
+  });
+  const json = { secret: "my very secret value" };
+
+  it("to encrypt with passphrase", async () => {
+    const storage = await BlobStorageArea.create({
+      ...config,
+      compress: true,
+      encryption: { passphrase: "correct horse", iterations: 1000 },
+    });
+    await storage.set(json);
+    // Keyed hash, so it doesn't reveal content.
+    expect(storage.getPreCompressHash()).not.toBeNull();
+    expect(storage.getPreCompressHash()).not.toBe(
+      await storage.calculateHash(JSON.stringify(json))
+    );
+    expect(storage.getHash()).not.toBeNull();
+
+    const stored = JSON.stringify(await dummyArea.get(null));
+    expect(stored).not.toContain("secret value");
+    expect(stored).toContain('"kdf":"PBKDF2"');
+
+    const reader = await BlobStorageArea.create({
+      ...config,
+      encryption: { passphrase: "correct horse" },
+    });
+    await expect(reader.get("secret")).resolves.toStrictEqual(json);
+  });
+
+  it("to fail with wrong passphrase or without one", async () => {
+    const wrong = await BlobStorageArea.create({
+      ...config,
+      encryption: { passphrase: "wrong" },
+    });
+    await expect(wrong.get("secret")).rejects.toThrow(DecryptionError);
+    const plain = await BlobStorageArea.create(config);
+    await expect(plain.get("secret")).rejects.toThrow(
+      "Data are encrypted, but no key is set."
+    );
+  });
+
+  it("to encrypt with given key", async () => {
+    const key = await crypto.subtle.generateKey(
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"]
+    );
+    const storage = await BlobStorageArea.create({
+      ...config,
+      encryption: { key },
+    });
+    // Stored data are encrypted with passphrase, so they can't be merged.
+    await expect(storage.set({ other: 1 })).rejects.toThrow(
+      "Data are encrypted with passphrase."
+    );
+    await storage.clear();
+    await storage.set({ other: 1 });
+    const reader = await BlobStorageArea.create({
+      ...config,
+      encryption: { key },
+    });
+    await expect(reader.get("other")).resolves.toStrictEqual({ other: 1 });
+  });
+
+  it("to keep slots of unchanged encrypted data", async () => {
+    const area = new DummyStorageArea(true);
+    const storage = await BlobStorageArea.create({
+      ...config,
+      storage: area,
+      encryption: { passphrase: "correct horse", iterations: 1000 },
+    });
+    await storage.set(json);
+    const hash = storage.getHash();
+
+    const written: string[] = [];
+    const originalSet = area.set.bind(area);
+    area.set = (items: { [key: string]: any }) => {
+      written.push(...Object.keys(items));
+      return originalSet(items);
+    };
+    await storage.set(json);
+    expect(written).toStrictEqual(["__storage_meta"]);
+    expect(storage.getHash()).toBe(hash);
+
+    await storage.set({ secret: "changed" });
+    expect(written.length).toBeGreaterThan(2);
+    await expect(storage.get("secret")).resolves.toStrictEqual({
+      secret: "changed",
+    });
+  });
+
+  it("to reject encryption without key", async () => {
+    await expect(
+      BlobStorageArea.create({ ...config, encryption: {} })
+    ).rejects.toThrow(InvalidConfigError);
+  });
+});
+
+describe("Namespaces", async () => {
+  const dummyArea = new DummyStorageArea(true);
+  const config = BlobStorageConfig({
+    storage: dummyArea,
+    slotSize: 16,
+    slotCount: 8,
+  });
+
+  it("to keep namespaces apart", async () => {
+    const first = await BlobStorageArea.create({ ...config, namespace: "one" });
+    const second = await BlobStorageArea.create({
+      ...config,
+      namespace: "two",
+    });
+    const legacy = await BlobStorageArea.create(config);
+    await first.set({ key: "first" });
+    await second.set({ key: "second" });
+    await legacy.set({ key: "legacy" });
+
+    await expect(first.get("key")).resolves.toStrictEqual({ key: "first" });
+    await expect(second.get("key")).resolves.toStrictEqual({ key: "second" });
+    await expect(legacy.get("key")).resolves.toStrictEqual({ key: "legacy" });
+    expect(Object.keys(await dummyArea.get(null))).toContain(
+      "one:__storage_meta"
+    );
+
+    await first.clear();
+    await expect(second.get("key")).resolves.toStrictEqual({ key: "second" });
+  });
+
+  it("to list namespaces", async () => {
+    const registry = new NamespaceRegistry(dummyArea);
+    await expect(registry.list()).resolves.toStrictEqual(["one", "two"]);
+    await registry.unregister("two");
+    await expect(registry.list()).resolves.toStrictEqual(["one"]);
+  });
+
+  it("to write registry only when reservation changes", async () => {
+    const area = new DummyStorageArea(true);
+    await BlobStorageArea.create({ ...config, storage: area, namespace: "a" });
+
+    const written: string[] = [];
+    const originalSet = area.set.bind(area);
+    area.set = (items: { [key: string]: any }) => {
+      written.push(...Object.keys(items));
+      return originalSet(items);
+    };
+    await BlobStorageArea.create({ ...config, storage: area, namespace: "a" });
+    await BlobStorageArea.create({ ...config, storage: area });
+    expect(written).not.toContain("__storage_namespaces");
+
+    await BlobStorageArea.create({
+      ...config,
+      storage: area,
+      namespace: "a",
+      slotCount: 16,
+    });
+    expect(written).toContain("__storage_namespaces");
+  });
+
+  it("to enforce shared quota", async () => {
+    const shared = { ...config, storage: new DummyStorageArea(true) };
+    const first = await BlobStorageArea.create({
+      ...shared,
+      namespace: "one",
+      sharedQuota: 2000,
+    });
+    const registry = new NamespaceRegistry(shared.storage);
+    const reserved = (await registry.getReservations()).one;
+    expect(reserved).toBeGreaterThan(2 * 8 * 16);
+    expect(reserved).toBeLessThan(2000);
+
+    await expect(
+      BlobStorageArea.create({ ...shared, namespace: "two", sharedQuota: 2000 })
+    ).rejects.toThrow("but shared quota is 2000 bytes.");
+    await expect(registry.list()).resolves.toStrictEqual(["one"]);
+    await expect(first.getCurrentUsed()).resolves.toBe(0);
+  });
+
+  it("to reject namespace with colon", async () => {
+    await expect(
+      BlobStorageArea.create({ ...config, namespace: "a:b" })
+    ).rejects.toThrow(InvalidConfigError);
+  });
+});
+
+describe("Schema migrations", async () => {
+  const dummyArea = new DummyStorageArea(true);
+  const config = BlobStorageConfig({
+    storage: dummyArea,
+    slotSize: 64,
+    slotCount: 8,
+  });
+  const migrations = [
+    (data: { [key: string]: any }) => ({ ...data, version: 1 }),
+    async (data: { [key: string]: any }) => {
+      const { name, ...rest } = data;
+      return { ...rest, names: [name] };
+    },
+  ];
+
+  it("to migrate older data once", async () => {
+    const legacy = await BlobStorageArea.create(config);
+    await legacy.set({ name: "first" });
+    expect(legacy.getSchemaVersion()).toBe(0);
+
+    const storage = await BlobStorageArea.create({ ...config, migrations });
+    expect(storage.getSchemaVersion()).toBe(2);
+    await expect(storage.get(["version", "names"])).resolves.toStrictEqual({
+      version: 1,
+      names: ["first"],
+    });
+
+    const lastUpdated = storage.getLastUpdated();
+    const again = await BlobStorageArea.create({ ...config, migrations });
+    expect(again.getLastUpdated()).toBe(lastUpdated);
+  });
+
+  it("to reject data with newer schema", async () => {
+    await expect(
+      BlobStorageArea.create({ ...config, migrations: migrations.slice(0, 1) })
+    ).rejects.toThrow(SchemaVersionError);
+  });
+
+  it("to start fresh storage at current version", async () => {
+    const storage = await BlobStorageArea.create({
+      ...config,
+      storage: new DummyStorageArea(true),
+      migrations,
+    });
+    await storage.set({ names: [] });
+    expect(storage.getSchemaVersion()).toBe(2);
+  });
+});
+
+describe("Format versions", async () => {
+  const config = BlobStorageConfig({ slotSize: 8, slotCount: 4 });
+
+  it("to upgrade legacy layout", async () => {
+    const dummyArea = new DummyStorageArea(true);
+    await dummyArea.set({
+      __storage_meta: {
+        hash: keyHash,
+        hashPreCompress: null,
+        lastUpdated: 1,
+        lastCompressState: LastCompressStates.Uncomporessed,
+      },
+      __storage_stack_0: '{"key":"',
+      __storage_stack_1: 'ABCDEF"}',
+    });
+
+    const storage = await BlobStorageArea.create({
+      ...config,
+      storage: dummyArea,
+    });
+    const stored = await dummyArea.get(null);
+    expect(stored.__storage_meta.formatVersion).toBe(2);
+    expect(stored.__storage_meta.slotHashes).toHaveLength(2);
+    expect(stored.__storage_meta.schemaVersion).toBe(0);
+    expect(stored.__storage_stack_0).toBeUndefined();
+    await expect(storage.get("key")).resolves.toStrictEqual({
+      key: "ABCDEF",
+    });
+  });
+
+  it("to mark empty storage without rewriting", async () => {
+    const dummyArea = new DummyStorageArea(true);
+    await dummyArea.set({
+      __storage_meta: {
+        hash: null,
+        hashPreCompress: null,
+        lastUpdated: null,
+        lastCompressState: LastCompressStates.Uncomporessed,
+      },
+    });
+    await BlobStorageArea.create({ ...config, storage: dummyArea });
+    const stored = await dummyArea.get(null);
+    expect(stored.__storage_meta.formatVersion).toBe(2);
+    expect(stored.__storage_meta.lastUpdated).toBeNull();
+  });
+
+  it("to reject newer layout", async () => {
+    const dummyArea = new DummyStorageArea(true);
+    await dummyArea.set({
+      __storage_meta: {
+        hash: null,
+        hashPreCompress: null,
+        lastUpdated: null,
+        lastCompressState: LastCompressStates.Uncomporessed,
+        formatVersion: 3,
+      },
+    });
+    await expect(
+      BlobStorageArea.create({ ...config, storage: dummyArea })
+    ).rejects.toThrow(FormatVersionError);
+  });
+
+  it("to keep meta of default geometry within item quota", async () => {
+    const dummyArea = new DummyStorageArea(true);
+    const storage = await BlobStorageArea.create({
+      ...BlobStorageConfig({ storage: dummyArea }),
+      slotSize: 32,
+    });
+    await storage.set({ key: "x".repeat(256 * 32 - 16) });
+    const stored = await dummyArea.get(null);
+    expect(stored.__storage_meta.slotHashes).toHaveLength(256);
+    expect(JSON.stringify(stored.__storage_meta).length).toBeLessThan(8192);
+  });
+});
+
+describe("Slot geometry changes", async () => {
+  const dummyArea = new DummyStorageArea(true);
+  const config = BlobStorageConfig({ storage: dummyArea });
+  const json = { key: "0123456789".repeat(3) };
+
+  it("to re-chunk data into new geometry", async () => {
+    const storage = await BlobStorageArea.create({
+      ...config,
+      slotSize: 8,
+      slotCount: 8,
+    });
+    await storage.set(json);
+
+    const resized = await BlobStorageArea.create({
+      ...config,
+      slotSize: 16,
+      slotCount: 4,
+    });
+    const stored = await dummyArea.get(null);
+    expect(stored.__storage_meta.slotSize).toBe(16);
+    expect(stored.__storage_meta.slotHashes).toHaveLength(3);
+    await expect(resized.get("key")).resolves.toStrictEqual(json);
+  });
+
+  it("to remove orphaned slots", async () => {
+    await dummyArea.set({ __storage_stack_3: "orphan" });
+    await BlobStorageArea.create({ ...config, slotSize: 24, slotCount: 2 });
+    const keys = Object.keys(await dummyArea.get(null));
+    expect(keys.filter((key) => key.includes("stack"))).toHaveLength(2);
+  });
+
+  it("to throw when data don't fit anymore", async () => {
+    await expect(
+      BlobStorageArea.create({ ...config, slotSize: 8, slotCount: 2 })
+    ).rejects.toThrow(TooLargeDataError);
+  });
+});
+
+describe("Concurrent writes", async () => {
+  const config = BlobStorageConfig({ slotSize: 16, slotCount: 8 });
+
+  /**
+   * Storage which lets other context write after data are read,
+   * before they are written back.
+   */
+  function interruptedStorage(
+    dummyArea: DummyStorageArea,
+    interrupt: () => Promise<void>
+  ): DummyStorageArea {
+    let slotsRead = false;
+    return Object.assign(Object.create(dummyArea), {
+      async get(keys: any) {
+        if ([].concat(keys).some((key: string) => key.includes("stack"))) {
+          slotsRead = true;
+        } else if (slotsRead && keys === "__storage_meta") {
+          slotsRead = false;
+          await interrupt();
+        }
+        return dummyArea.get(keys);
+      },
+    });
+  }
+
+  it("to merge again when other context wrote in between", async () => {
+    const dummyArea = new DummyStorageArea(true);
+    const other = await BlobStorageArea.create({
+      ...config,
+      storage: dummyArea,
+    });
+    await other.set({ first: 1 });
+
+    let interrupts = 0;
+    const storage = await BlobStorageArea.create({
+      ...config,
+      storage: interruptedStorage(dummyArea, async () => {
+        if (interrupts++ === 0) {
+          await other.set({ second: 2 });
+        }
+      }),
+    });
+    await storage.set({ third: 3 });
+    await expect(
+      other.get(["first", "second", "third"])
+    ).resolves.toStrictEqual({ first: 1, second: 2, third: 3 });
+  });
+
+  it("to throw conflict when retries run out", async () => {
+    const dummyArea = new DummyStorageArea(true);
+    const other = await BlobStorageArea.create({
+      ...config,
+      storage: dummyArea,
+    });
+    await other.set({ first: 1 });
+
+    let counter = 0;
+    const storage = await BlobStorageArea.create({
+      ...config,
+      conflictRetries: 1,
+      storage: interruptedStorage(dummyArea, () =>
+        other.set({ counter: counter++ })
+      ),
+    });
+    await expect(storage.set({ third: 3 })).rejects.toThrow(ConflictError);
+    await expect(other.get("first")).resolves.toStrictEqual({ first: 1 });
+  });
+
+  it("to keep committed slots of other context", async () => {
+    const dummyArea = new DummyStorageArea(true);
+    const fast = await BlobStorageArea.create({
+      ...config,
+      storage: dummyArea,
+    });
+    await fast.set({ key: "old value" });
+
+    // Slow context is held after it read meta, while writing its slots.
+    let release = () => undefined as void;
+    const held = new Promise<void>((resolve) => (release = resolve));
+    let holding = false;
+    let blocked = () => undefined as void;
+    const writing = new Promise<void>((resolve) => (blocked = resolve));
+    const slow = await BlobStorageArea.create({
+      ...config,
+      conflictRetries: 0,
+      storage: Object.assign(Object.create(dummyArea), {
+        async set(items: { [key: string]: any }) {
+          if (
+            holding &&
+            Object.keys(items).some((key) => key.includes("stack"))
+          ) {
+            holding = false;
+            blocked();
+            await held;
+          }
+          return dummyArea.set(items);
+        },
+      }),
+    });
+
+    holding = true;
+    const slowWrite = slow.set({ key: "slow value" });
+    await writing;
+    await fast.set({ key: "fast value" });
+    release();
+    await expect(slowWrite).rejects.toThrow(ConflictError);
+
+    const reader = await BlobStorageArea.create({
+      ...config,
+      storage: dummyArea,
+    });
+    await expect(reader.get(null)).resolves.toStrictEqual({
+      key: "fast value",
+    });
+    // Slots of failed write are not left behind.
+    const slotKeys = Object.keys(await dummyArea.get(null)).filter((key) =>
+      key.includes("stack")
+    );
+    const { __storage_meta } = await dummyArea.get("__storage_meta");
+    expect(slotKeys).toHaveLength(__storage_meta.slotHashes.length);
+
+    await slow.set({ key: "slow value" });
+    await expect(reader.get(null)).resolves.toStrictEqual({
+      key: "slow value",
+    });
+  });
+
+  it("to serialize writes with lock", async () => {
+    const dummyArea = new DummyStorageArea(true);
+    const locked = { ...config, storage: dummyArea, lock: true };
+    const first = await BlobStorageArea.create(locked);
+    const second = await BlobStorageArea.create(locked);
+    await Promise.all([
+      first.set({ a: 1 }),
+      second.set({ b: 2 }),
+      first.remove("c"),
+      second.set({ d: 4 }),
+    ]);
+    await expect(first.get(["a", "b", "d"])).resolves.toStrictEqual({
+      a: 1,
+      b: 2,
+      d: 4,
+    });
+    expect((await dummyArea.get(null)).__storage_lock).toBeUndefined();
+  });
+
+  it("to take over expired lease, but wait for live one", async () => {
+    const dummyArea = new DummyStorageArea(true);
+    const storage = await BlobStorageArea.create({
+      ...config,
+      storage: dummyArea,
+      lock: true,
+      lockLease: 50,
+    });
+    await dummyArea.set({
+      __storage_lock: { owner: "crashed", expires: Date.now() - 1 },
+    });
+    await storage.set({ a: 1 });
+
+    await dummyArea.set({
+      __storage_lock: { owner: "other", expires: Date.now() + 10000 },
+    });
+    await expect(storage.set({ a: 2 })).rejects.toThrow(
+      "Storage is locked by other context."
+    );
+  });
+
+  it("to clear only with lock", async () => {
+    const dummyArea = new DummyStorageArea(true);
+    const storage = await BlobStorageArea.create({
+      ...config,
+      storage: dummyArea,
+      lock: true,
+      lockLease: 50,
+    });
+    await storage.set({ a: 1 });
+
+    await dummyArea.set({
+      __storage_lock: { owner: "other", expires: Date.now() + 10000 },
+    });
+    await expect(storage.clear()).rejects.toThrow(
+      "Storage is locked by other context."
+    );
+    await expect(storage.get("a")).resolves.toStrictEqual({ a: 1 });
+
+    await dummyArea.remove("__storage_lock");
+    await storage.clear();
+    await expect(storage.get(null)).resolves.toStrictEqual({});
+    expect((await dummyArea.get(null)).__storage_lock).toBeUndefined();
+  });
+});
+
+describe("Operation queue", async () => {
+  const storage = await BlobStorageArea.create(
+    BlobStorageConfig({ slotSize: 16, slotCount: 4, disableDummyWarning: true })
+  );
+
+  it("to run operations in order", async () => {
+    const states: StorageStates[] = [];
+    storage.set({ a: 1 }).then(() => states.push(storage.getState()));
+    expect(storage.getState()).toBe(StorageStates.Uploading);
+    storage.set({ b: 2 });
+    storage.remove("a");
+    const read = storage.get(["a", "b"]);
+
+    await storage.flush();
+    expect(states).toStrictEqual([StorageStates.Queued]);
+    expect(storage.getState()).toBe(StorageStates.Idle);
+    await expect(read).resolves.toStrictEqual({ b: 2 });
+  });
+
+  it("to continue after failed operation", async () => {
+    const failed = storage.set({ big: "x".repeat(100) });
+    const read = storage.get("b");
+    await expect(failed).rejects.toThrow(TooLargeDataError);
+    await expect(read).resolves.toStrictEqual({ b: 2 });
+  });
+});
+
+describe("Batched writes", async () => {
+  const dummyArea = new DummyStorageArea(true);
+  let metaWrites = 0;
+  const countingArea = Object.assign(Object.create(dummyArea), {
+    set(items: { [key: string]: any }) {
+      if (items.__storage_meta) {
+        metaWrites++;
+      }
+      return dummyArea.set(items);
+    },
+  });
+  const storage = await BlobStorageArea.create(
+    BlobStorageConfig({
+      storage: countingArea,
+      slotSize: 16,
+      slotCount: 4,
+      batchDelay: 10000,
+    })
+  );
+
+  it("to coalesce items into one write", async () => {
+    metaWrites = 0;
+    storage.set({ a: 1 });
+    storage.set({ b: 2 });
+    const last = storage.set({ a: 3 });
+    expect(storage.getState()).toBe(StorageStates.Queued);
+    await expect(storage.get(["a", "b"])).resolves.toStrictEqual({
+      a: 3,
+      b: 2,
+    });
+    expect(metaWrites).toBe(0);
+
+    await storage.flush();
+    await last;
+    expect(metaWrites).toBe(1);
+    const reader = await BlobStorageArea.create({
+      ...BlobStorageConfig({ slotSize: 16, slotCount: 4 }),
+      storage: dummyArea,
+    });
+    await expect(reader.get(["a", "b"])).resolves.toStrictEqual({
+      a: 3,
+      b: 2,
+    });
+  });
+
+  it("to write batch within max delay", async () => {
+    const quick = await BlobStorageArea.create(
+      BlobStorageConfig({
+        storage: new DummyStorageArea(true),
+        slotSize: 16,
+        slotCount: 4,
+        batchDelay: 10000,
+        batchMaxDelay: 20,
+      })
+    );
+    const started = Date.now();
+    await quick.set({ a: 1 });
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(quick.getState()).toBe(StorageStates.Idle);
+  });
+
+  it("to reject batch which doesn't fit", async () => {
+    const failed = storage.set({ big: "x".repeat(100) });
+    await expect(storage.flush()).rejects.toThrow(TooLargeDataError);
+    await expect(failed).rejects.toThrow(TooLargeDataError);
+    await expect(storage.get("big")).resolves.toStrictEqual({});
+  });
+});
+
+describe("Partial reads", async () => {
+  const dummyArea = new DummyStorageArea(true);
+  const requests: string[][] = [];
+  const recordingArea = Object.assign(Object.create(dummyArea), {
+    get(keys: any) {
+      requests.push([].concat(keys));
+      return dummyArea.get(keys);
+    },
+  });
+  const config = BlobStorageConfig({
+    slotSize: 16,
+    slotCount: 16,
+    keyIndex: true,
+  });
+  const json = {
+    a: "x".repeat(40),
+    b: { nested: [1, 2] },
+    c: "žluťoučký kůň",
+  };
+  const writer = await BlobStorageArea.create({
+    ...config,
+    storage: dummyArea,
+  });
+  await writer.set(json);
+
+  it("to read only slots of requested keys", async () => {
+    const reader = await BlobStorageArea.create({
+      ...config,
+      storage: recordingArea,
+    });
+    requests.length = 0;
+    await expect(reader.get(["b", "missing"])).resolves.toStrictEqual({
+      b: json.b,
+    });
+    const slotRequests = requests.filter((keys) =>
+      keys.some((key) => key.includes("stack"))
+    );
+    // Value of b is at offsets 52-67.
+    expect(slotRequests).toStrictEqual([
+      [await storedSlotKey(dummyArea, 3), await storedSlotKey(dummyArea, 4)],
+    ]);
+
+    await expect(reader.get(["c", "a"])).resolves.toStrictEqual({
+      c: json.c,
+      a: json.a,
+    });
+  });
+
+  it("to read whole document in one request", async () => {
+    const reader = await BlobStorageArea.create({
+      ...BlobStorageConfig({ slotSize: 16, slotCount: 16 }),
+      storage: recordingArea,
+    });
+    requests.length = 0;
+    await reader.set({ d: 1 });
+    const slotRequests = requests.filter((keys) =>
+      keys.some((key) => key.includes("stack"))
+    );
+    expect(slotRequests).toHaveLength(1);
+    // Index of other writer is not kept with new data.
+    expect((await dummyArea.get(null)).__storage_meta.keyIndex).toBeNull();
+  });
+
+  it("to not index compressed data", async () => {
+    const storage = await BlobStorageArea.create({
+      ...config,
+      storage: new DummyStorageArea(true),
+      compress: true,
+    });
+    await storage.set(json);
+    expect(storage.getLastCompressState()).toBe(LastCompressStates.Compressed);
+    await expect(storage.get("c")).resolves.toStrictEqual({ c: json.c });
+  });
+});
+
+describe("Get forms", async () => {
+  const dummyArea = new DummyStorageArea(true);
+  const config = BlobStorageConfig({
+    storage: dummyArea,
+    slotSize: 16,
+    slotCount: 8,
+  });
+  const storage = await BlobStorageArea.create(config);
+  await storage.set({ theme: "light", zero: 0, empty: null });
+
+  it("to fill missing keys from defaults", async () => {
+    await expect(
+      storage.get({ theme: "dark", size: 12, zero: 5, empty: "x" })
+    ).resolves.toStrictEqual({
+      theme: "light",
+      size: 12,
+      zero: 0,
+      empty: null,
+    });
+  });
+
+  it("to leave out missing keys", async () => {
+    await expect(storage.get(["theme", "size"])).resolves.toStrictEqual({
+      theme: "light",
+    });
+    await expect(storage.get("size")).resolves.toStrictEqual({});
+  });
+
+  it("to return whole document on fresh instance", async () => {
+    const fresh = await BlobStorageArea.create(config);
+    const whole = { theme: "light", zero: 0, empty: null };
+    await expect(fresh.get(null)).resolves.toStrictEqual(whole);
+    await expect(fresh.get()).resolves.toStrictEqual(whole);
+  });
+});
+
+describe("Serializers", async () => {
+  const config = BlobStorageConfig({ slotSize: 64, slotCount: 16 });
+  const rich = () => ({
+    date: new Date(1660000000123),
+    map: new Map<any, any>([
+      ["key", 1],
+      [2, new Set(["nested"])],
+    ]),
+    set: new Set([1, "two"]),
+    bytes: new Uint8Array([0, 1, 254, 255]),
+    buffer: new Uint8Array([7, 8]).buffer,
+    big: BigInt("123456789012345678901234567890"),
+    negative: -1234567,
+    float: 1.5,
+    tagLike: { $type: "Date", value: 1 },
+    list: [null, true, "text"],
+  });
+
+  it("to keep rich values in tagged and msgpack", async () => {
+    for (const serializer of ["tagged", "msgpack"]) {
+      const dummyArea = new DummyStorageArea(true);
+      const storage = await BlobStorageArea.create({
+        ...config,
+        storage: dummyArea,
+        serializer,
+      } as BlobStorageConfigInterface);
+      await storage.set(rich());
+      const stored = await dummyArea.get(null);
+      expect(stored.__storage_meta.serializer).toBe(serializer);
+
+      const reader = await BlobStorageArea.create({
+        ...config,
+        storage: dummyArea,
+      });
+      const value = await reader.get(null);
+      expect(value).toStrictEqual(rich());
+      expect(Array.from(new Uint8Array(value.buffer))).toStrictEqual([7, 8]);
+    }
+  });
+
+  it("to store msgpack compressed and in base64", async () => {
+    const storage = await BlobStorageArea.create({
+      ...config,
+      serializer: "msgpack",
+      compress: true,
+    });
+    await storage.set(rich());
+    await expect(storage.get(null)).resolves.toStrictEqual(rich());
+
+    const dummyArea = new DummyStorageArea(true);
+    const plain = await BlobStorageArea.create({
+      ...config,
+      storage: dummyArea,
+      serializer: "msgpack",
+    });
+    await plain.set({ a: 1 });
+    // Fixmap with one item, fixstr "a" and positive fixint 1.
+    const slotKey = await storedSlotKey(dummyArea, 0);
+    expect((await dummyArea.get(slotKey))[slotKey]).toBe(
+      btoa(String.fromCharCode(0x81, 0xa1, 0x61, 0x01))
+    );
+  });
+
+  it("to keep json as default", async () => {
+    const storage = await BlobStorageArea.create(config);
+    await storage.set({ date: new Date(0) });
+    await expect(storage.get(null)).resolves.toStrictEqual({
+      date: "1970-01-01T00:00:00.000Z",
+    });
+  });
+
+  it("to reject raw encoding of msgpack", async () => {
+    await expect(
+      BlobStorageArea.create({
+        ...config,
+        serializer: "msgpack",
+        slotEncoding: "raw",
+      })
+    ).rejects.toThrow(InvalidConfigError);
+  });
+});
+
+describe("Composite storage", async () => {
+  const createTiers = async () => ({
+    primary: await BlobStorageArea.create(
+      BlobStorageConfig({
+        storage: new DummyStorageArea(true),
+        slotSize: 16,
+        slotCount: 4,
+      })
+    ),
+    overflow: await BlobStorageArea.create(
+      BlobStorageConfig({
+        storage: new DummyStorageArea(true),
+        slotSize: 64,
+        slotCount: 4,
+      })
+    ),
+  });
+
+  it("to keep priority keys in primary and spill the rest", async () => {
+    const tiers = await createTiers();
+    const storage = new CompositeStorageArea({
+      ...tiers,
+      priorities: { theme: 10 },
+    });
+    await storage.set({ cache: "x".repeat(50), theme: "dark" });
+
+    await expect(storage.getTier("theme")).resolves.toBe("primary");
+    await expect(storage.getTier("cache")).resolves.toBe("overflow");
+    await expect(storage.get(["theme", "cache"])).resolves.toStrictEqual({
+      theme: "dark",
+      cache: "x".repeat(50),
+    });
+    await expect(
+      storage.get({ theme: "light", size: 12 })
+    ).resolves.toStrictEqual({ theme: "dark", size: 12 });
+    await expect(storage.getBytesInUse("cache")).resolves.toBe(57);
+
+    // Once there is space, keys move back to primary.
+    await storage.set({ cache: "small" });
+    await expect(storage.getTier("cache")).resolves.toBe("primary");
+    await expect(tiers.overflow.get(null)).resolves.toStrictEqual({});
+  });
+
+  it("to remove and clear in both storages", async () => {
+    const storage = new CompositeStorageArea(await createTiers());
+    await storage.set({ a: "a".repeat(40), b: "b".repeat(40) });
+    await expect(storage.getTier("b")).resolves.toBe("overflow");
+    await storage.remove(["b"]);
+    await expect(storage.get(null)).resolves.toStrictEqual({
+      a: "a".repeat(40),
+    });
+    await storage.clear();
+    await expect(storage.get(null)).resolves.toStrictEqual({});
+  });
+
+  it("to keep data when even overflow is full", async () => {
+    const tiers = await createTiers();
+    const storage = new CompositeStorageArea(tiers);
+    await storage.set({ a: 1 });
+    await expect(storage.set({ big: "x".repeat(500) })).rejects.toThrow(
+      TooLargeDataError
+    );
+    await expect(tiers.primary.get(null)).resolves.toStrictEqual({ a: 1 });
+    await expect(storage.get(null)).resolves.toStrictEqual({ a: 1 });
+  });
+
+  it("to keep spilled keys when killed before primary is written", async () => {
+    const tiers = await createTiers();
+    const storage = new CompositeStorageArea(tiers);
+    await storage.set({ theme: "dark", cache: "small" });
+    await expect(storage.getTier("cache")).resolves.toBe("primary");
+
+    // Context dies while writing primary.
+    let killed = () => undefined as void;
+    const dead = new Promise<void>((resolve) => (killed = resolve));
+    const primary = Object.assign(Object.create(tiers.primary), {
+      set() {
+        killed();
+        return new Promise(() => undefined);
+      },
+    });
+    new CompositeStorageArea({ ...tiers, primary }).set({
+      cache: "x".repeat(50),
+    });
+    await dead;
+
+    await expect(storage.get(["theme", "cache"])).resolves.toStrictEqual({
+      theme: "dark",
+      cache: "small",
+    });
+    await expect(tiers.overflow.get("cache")).resolves.toStrictEqual({
+      cache: "x".repeat(50),
+    });
+  });
+
+  it("to measure fit without writing", async () => {
+    const dummyArea = new DummyStorageArea(true);
+    const storage = await BlobStorageArea.create(
+      BlobStorageConfig({
+        storage: dummyArea,
+        slotSize: 16,
+        slotCount: 8,
+        compress: true,
+        encryption: { passphrase: "correct horse", iterations: 1000 },
+      })
+    );
+    await expect(storage.fits({ a: "x".repeat(200) })).resolves.toBe(true);
+    const noise = Array.from({ length: 200 }, (_, i) => (i * 7919) % 997);
+    await expect(storage.fits({ noise })).resolves.toBe(false);
+    await expect(dummyArea.get(null)).resolves.toStrictEqual({
+      __storage_meta: expect.objectContaining({ lastUpdated: null }),
+    });
+  });
+
+  it("to find split without writing primary more than once", async () => {
+    const tiers = await createTiers();
+    tiers.overflow = await BlobStorageArea.create(
+      BlobStorageConfig({
+        storage: new DummyStorageArea(true),
+        slotSize: 256,
+        slotCount: 8,
+      })
+    );
+    const storage = new CompositeStorageArea(tiers);
+    let attempts = 0;
+    const originalSet = tiers.primary.set.bind(tiers.primary);
+    tiers.primary.set = (items: { [key: string]: any }) => {
+      attempts++;
+      return originalSet(items);
+    };
+
+    const items: { [key: string]: any } = {};
+    for (let i = 0; i < 40; i++) {
+      items["key" + i] = "value" + i;
+    }
+    let changes = 0;
+    tiers.primary.onChanged.addListener(() => changes++);
+    await storage.set(items);
+
+    expect(attempts).toBe(1);
+    expect(changes).toBe(1);
+    await expect(storage.getTier("key2")).resolves.toBe("primary");
+    await expect(storage.getTier("key3")).resolves.toBe("overflow");
+    await expect(storage.get(null)).resolves.toStrictEqual(items);
+  });
+});
+
+describe("Key expiry", async () => {
+  const config = BlobStorageConfig({ slotSize: 32, slotCount: 16 });
+  // Only clock is faked, dummy storage still answers with real timers.
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"], shouldAdvanceTime: true });
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+  const elapse = (ms: number) => vi.setSystemTime(Date.now() + ms);
+
+  it("to hide expired keys from get()", async () => {
+    const dummyArea = new DummyStorageArea(true);
+    const storage = await BlobStorageArea.create({
+      ...config,
+      storage: dummyArea,
+    });
+    await storage.set({ token: "abc", user: "joe" }, { ttl: { token: 60000 } });
+    await expect(storage.get(["token", "user"])).resolves.toStrictEqual({
+      token: "abc",
+      user: "joe",
+    });
+
+    elapse(60001);
+    await expect(storage.get(["token", "user"])).resolves.toStrictEqual({
+      user: "joe",
+    });
+    await expect(storage.get({ token: "none" })).resolves.toStrictEqual({
+      token: "none",
+    });
+    await expect(storage.get(null)).resolves.toStrictEqual({ user: "joe" });
+
+    const fresh = await BlobStorageArea.create({
+      ...config,
+      storage: dummyArea,
+    });
+    await expect(fresh.get("token")).resolves.toStrictEqual({});
+  });
+
+  it("to purge expired keys from slots", async () => {
+    const dummyArea = new DummyStorageArea(true);
+    const storage = await BlobStorageArea.create({
+      ...config,
+      storage: dummyArea,
+    });
+    await storage.set({ a: "x".repeat(100), b: 1 }, { ttl: 60000 });
+    await storage.set({ c: 2 });
+    const used = await storage.getCurrentUsed(true);
+    await expect(storage.purgeExpired()).resolves.toStrictEqual([]);
+
+    elapse(60001);
+    await expect(storage.purgeExpired()).resolves.toStrictEqual(["a", "b"]);
+    expect(await storage.getCurrentUsed(true)).toBeLessThan(used);
+    const { __storage_meta } = await dummyArea.get("__storage_meta");
+    expect(__storage_meta.expiry).toStrictEqual({});
+    await expect(storage.get(null)).resolves.toStrictEqual({ c: 2 });
+  });
+
+  it("to drop expiry when key is set again or removed", async () => {
+    const dummyArea = new DummyStorageArea(true);
+    const storage = await BlobStorageArea.create({
+      ...config,
+      storage: dummyArea,
+    });
+    await storage.set({ a: 1, b: 2, c: 3 }, { ttl: 60000 });
+    await storage.set({ a: 4 });
+    await storage.remove("b");
+    const { __storage_meta } = await dummyArea.get("__storage_meta");
+    expect(Object.keys(__storage_meta.expiry)).toStrictEqual(["c"]);
+
+    elapse(60001);
+    await storage.set({ d: 5 });
+    await expect(storage.get(null)).resolves.toStrictEqual({ a: 4, d: 5 });
+  });
+
+  it("to keep expiry of batched items", async () => {
+    const storage = await BlobStorageArea.create({
+      ...config,
+      batchDelay: 10,
+    });
+    storage.set({ a: 1 }, { ttl: 60000 });
+    storage.set({ b: 2 });
+    await storage.flush();
+    elapse(60001);
+    await expect(storage.get(["a", "b"])).resolves.toStrictEqual({ b: 2 });
+  });
+
+  it("to call set() callback and report error when items are not stored", async () => {
+    const storage = await BlobStorageArea.create(config);
+    await new Promise<void>((resolve) => {
+      storage.set({ a: 1 }, () => resolve());
+    });
+
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    try {
+      await new Promise<void>((resolve) => {
+        storage.set({ big: "x".repeat(1000) }, () => resolve());
+      });
+      expect(consoleError).toHaveBeenCalledWith(expect.any(TooLargeDataError));
+    } finally {
+      consoleError.mockRestore();
+    }
+    await expect(storage.get("big")).resolves.toStrictEqual({});
+  });
+});
+
+describe("Eviction", async () => {
+  const config = BlobStorageConfig({ slotSize: 32, slotCount: 4 });
+  const value = "x".repeat(30);
+  const sleep = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+  const fill = async (storage: BlobStorageArea) => {
+    for (const key of ["a", "b", "c"]) {
+      await storage.set({ [key]: value });
+      await sleep(2);
+    }
+  };
+
+  it("to throw when eviction is off", async () => {
+    const storage = await BlobStorageArea.create(config);
+    await fill(storage);
+    await expect(storage.set({ d: value })).rejects.toThrow(TooLargeDataError);
+  });
+
+  it("to evict oldest written keys", async () => {
+    const evicted: string[][] = [];
+    const storage = await BlobStorageArea.create({
+      ...config,
+      eviction: "oldest",
+      onEvict: (keys: string[]) => evicted.push(keys),
+    });
+    await fill(storage);
+    await storage.set({ a: value });
+    await storage.set({ d: value });
+    expect(evicted).toStrictEqual([["b"]]);
+    await expect(storage.get(null)).resolves.toStrictEqual({
+      a: value,
+      c: value,
+      d: value,
+    });
+  });
+
+  it("to evict least recently used keys", async () => {
+    const storage = await BlobStorageArea.create({
+      ...config,
+      eviction: "lru",
+    });
+    await fill(storage);
+    await storage.get("a");
+    await storage.set({ d: value });
+    await expect(storage.get(["a", "b", "c", "d"])).resolves.toStrictEqual({
+      a: value,
+      c: value,
+      d: value,
+    });
+  });
+
+  it("to evict lowest priority keys, but never protected ones", async () => {
+    const storage = await BlobStorageArea.create({
+      ...config,
+      eviction: "priority",
+      priorities: { a: 1, b: 5, c: 3 },
+      protectedKeys: ["a"],
+    });
+    await fill(storage);
+    await storage.set({ d: value });
+    await expect(storage.get(null)).resolves.toStrictEqual({
+      a: value,
+      b: value,
+      d: value,
+    });
+  });
+
+  it("to throw when set items alone don't fit", async () => {
+    const storage = await BlobStorageArea.create({
+      ...config,
+      eviction: "oldest",
+    });
+    await fill(storage);
+    await expect(storage.set({ d: "x".repeat(200) })).rejects.toThrow(
+      TooLargeDataError
+    );
+    await expect(storage.get(null)).resolves.toStrictEqual({
+      a: value,
+      b: value,
+      c: value,
+    });
+  });
+
+  it("to keep times of keys within item quota", async () => {
+    const limits = {
+      QUOTA_BYTES: 102400,
+      QUOTA_BYTES_PER_ITEM: 8192,
+      MAX_ITEMS: 512,
+    };
+    const batch = (from: number) => {
+      const items: { [key: string]: number } = {};
+      for (let i = from; i < from + 50; i++) {
+        items["key" + i] = i;
+      }
+      return items;
+    };
+    const metaSize = async (area: DummyStorageArea) =>
+      JSON.stringify(await area.get("__storage_meta")).length;
+
+    const dummyArea = new DummyStorageArea(true);
+    const storage = await BlobStorageArea.create({
+      ...BlobStorageConfig({ storage: dummyArea, limits, autoSlots: true }),
+      eviction: "lru",
+    });
+    for (let from = 0; from < 400; from += 50) {
+      await storage.set(batch(from));
+    }
+    expect(await metaSize(dummyArea)).toBeLessThanOrEqual(8192);
+    const stored = await storage.get(null);
+    expect(Object.keys(stored).length).toBeLessThan(400);
+    expect(stored).toMatchObject(batch(350));
+
+    // Without eviction set() fails before anything is written.
+    const plainArea = new DummyStorageArea(true);
+    const plain = await BlobStorageArea.create(
+      BlobStorageConfig({ storage: plainArea, limits, autoSlots: true })
+    );
+    let expected: { [key: string]: number } = {};
+    let error: unknown;
+    for (let from = 0; !error; from += 50) {
+      error = await plain.set(batch(from), { ttl: 60000 }).catch((e) => e);
+      expected = error ? expected : { ...expected, ...batch(from) };
+    }
+    expect(error).toBeInstanceOf(TooLargeDataError);
+    expect(await metaSize(plainArea)).toBeLessThanOrEqual(8192);
+    await expect(plain.get(null)).resolves.toStrictEqual(expected);
+  });
+});
+
+describe("Snapshots", async () => {
+  const config = BlobStorageConfig({ slotSize: 64, slotCount: 16 });
+
+  it("to keep ring of previous documents", async () => {
+    const local = new DummyStorageArea(true);
+    const storage = await BlobStorageArea.create({
+      ...config,
+      snapshots: 2,
+      snapshotStorage: local,
+    });
+    await storage.set({ a: 1 });
+    await storage.set({ a: 2 });
+    const lastUpdated = storage.getLastUpdated();
+    await storage.set({ a: 3, b: 1 });
+    const snapshots = await storage.listSnapshots();
+    expect(snapshots.map((snapshot) => snapshot.id)).toStrictEqual([2, 1]);
+    expect(snapshots[0].lastUpdated).toBe(lastUpdated);
+
+    await storage.clear();
+    expect(
+      (await storage.listSnapshots()).map((snapshot) => snapshot.id)
+    ).toStrictEqual([3, 2]);
+    const { __storage_snapshot_1 } = await local.get(null);
+    expect(__storage_snapshot_1).toBeUndefined();
+    await expect(storage.restoreSnapshot(1)).rejects.toThrow(
+      SnapshotNotFoundError
+    );
+
+    await storage.restoreSnapshot(3);
+    await expect(storage.get(null)).resolves.toStrictEqual({ a: 3, b: 1 });
+  });
+
+  it("to replace whole document and snapshot it", async () => {
+    const storage = await BlobStorageArea.create({
+      ...config,
+      snapshots: 5,
+      snapshotStorage: new DummyStorageArea(true),
+    });
+    await storage.set({ a: 1 });
+    await storage.set({ b: 2 });
+    await storage.restoreSnapshot(1);
+    await expect(storage.get(null)).resolves.toStrictEqual({ a: 1 });
+
+    await storage.restoreSnapshot(2);
+    await expect(storage.get(null)).resolves.toStrictEqual({ a: 1, b: 2 });
+  });
+
+  it("to compress and encrypt snapshots", async () => {
+    const local = new DummyStorageArea(true);
+    const storage = await BlobStorageArea.create({
+      ...config,
+      snapshots: 1,
+      snapshotStorage: local,
+      encryption: { passphrase: "correct horse", iterations: 1000 },
+    });
+    await storage.set({ secret: "x".repeat(100) });
+    await storage.set({ secret: "y" });
+    const { __storage_snapshot_1 } = await local.get("__storage_snapshot_1");
+    expect(__storage_snapshot_1.length).toBeLessThan(100);
+    const { __storage_snapshots } = await local.get("__storage_snapshots");
+    expect(__storage_snapshots[0].encryption.kdf).toBe("PBKDF2");
+
+    await storage.restoreSnapshot(1);
+    await expect(storage.get("secret")).resolves.toStrictEqual({
+      secret: "x".repeat(100),
+    });
+  });
+
+  it("to need snapshot storage", async () => {
+    await expect(
+      BlobStorageArea.create({ ...config, snapshots: 1 })
+    ).rejects.toThrow(InvalidConfigError);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 
 import { DummyStorageArea } from "../DummyStorageArea";
 
@@ -116,4 +116,53 @@ describe("Dummy storage", () => {
       },
     });
   });
+
+  it("bytes in use works", async () => {
+    await storage.clear();
+    await storage.set({ key1: "val1", key2: { a: 1 } });
+
+    await expect(storage.getBytesInUse("key1")).resolves.toBe(10);
+    await expect(storage.getBytesInUse(["key1", "key2"])).resolves.toBe(21);
+    await expect(storage.getBytesInUse(null)).resolves.toBe(21);
+    await expect(storage.getBytesInUse([])).resolves.toBe(0);
+
+    const value = await new Promise<number>((resolve) => {
+      storage.getBytesInUse((bytes) => resolve(bytes));
+    });
+    expect(value).toBe(21);
+
+    await storage.set({ key3: BigInt(1) });
+    await expect(storage.getBytesInUse("key3")).rejects.toThrow(TypeError);
+
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    try {
+      const failed = await new Promise<number | undefined>((resolve) => {
+        storage.getBytesInUse("key3", (bytes) => resolve(bytes));
+      });
+      expect(failed).toBeUndefined();
+      expect(consoleError).toHaveBeenCalledWith(expect.any(TypeError));
+    } finally {
+      consoleError.mockRestore();
+    }
+    await storage.remove("key3");
+  });
+
+  it("onChanged works", async () => {
+    await storage.clear();
+    const changes: { [key: string]: any }[] = [];
+    const listener = (change: { [key: string]: any }) => changes.push(change);
+    storage.onChanged.addListener(listener);
+
+    await storage.set({ key1: "val1" });
+    await storage.remove(["key1", "missing"]);
+    storage.onChanged.removeListener(listener);
+    await storage.set({ key2: "val2" });
+
+    expect(changes).toStrictEqual([
+      { key1: { oldValue: undefined, newValue: "val1" } },
+      { key1: { oldValue: "val1" } },
+    ]);
+  });
 });
@@ -0,0 +1,36 @@
+import type { BackendInterface, CodecInterface, ZlibCodecName } from "../types";
+import { StreamCodec } from "../codecs/StreamCodec";
+import { ZippingError } from "../errors/ZippingError";
+
+/**
+ * Backend using browser-native CompressionStream and SubtleCrypto.
+ *
+ * Works in MV3 service workers without any polyfills.
+ */
+class BrowserBackend implements BackendInterface {
+  readonly id = "browser";
+  readonly hashAlgorithm = "sha-256";
+
+  async hash(data: string): Promise<string> {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(data)
+    );
+    let hex = "";
+    new Uint8Array(digest).forEach((byte) => {
+      hex += ("0" + byte.toString(16)).slice(-2);
+    });
+    return hex;
+  }
+
+  createCodec(id: ZlibCodecName): CodecInterface {
+    if (id === "brotli") {
+      throw new ZippingError(
+        new Error(`Codec "${id}" is not supported in browser.`)
+      );
+    }
+    return new StreamCodec(id);
+  }
+}
+
+export { BrowserBackend };
@@ -0,0 +1,21 @@
+import type { BackendInterface, CodecInterface, ZlibCodecName } from "../types";
+import { ZlibCodec } from "../codecs/ZlibCodec";
+import { createHash } from "crypto";
+
+/**
+ * Backend using node:zlib and node crypto.
+ */
+class NodeBackend implements BackendInterface {
+  readonly id = "node";
+  readonly hashAlgorithm = "md5";
+
+  async hash(data: string): Promise<string> {
+    return createHash("md5").update(data).digest("hex");
+  }
+
+  createCodec(id: ZlibCodecName): CodecInterface {
+    return new ZlibCodec(id);
+  }
+}
+
+export { NodeBackend };
@@ -0,0 +1,24 @@
+import type { BackendInterface, BackendName } from "../types";
+import { BrowserBackend } from "./BrowserBackend";
+import { InvalidConfigError } from "../errors/InvalidConfigError";
+
+/**
+ * Creates backend in browser builds.
+ *
+ * Replaces createBackend through "browser" field of package.json, so
+ * bundlers never reach node backend and its node modules.
+ *
+ * @param name Backend name, "auto" is always browser backend here.
+ * @returns Promise that resolves with backend.
+ * @throws InvalidConfigError when node backend is requested.
+ */
+async function createBackend(name: BackendName): Promise<BackendInterface> {
+  if (name === "node") {
+    throw new InvalidConfigError(
+      "Node backend is not available in browser build."
+    );
+  }
+  return new BrowserBackend();
+}
+
+export { createBackend };
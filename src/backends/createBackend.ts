@@ -0,0 +1,28 @@
+import type { BackendInterface, BackendName } from "../types";
+import { BrowserBackend } from "./BrowserBackend";
+
+/**
+ * Creates backend by name.
+ *
+ * Browser builds use createBackend.browser instead, mapped by "browser" field
+ * of package.json, so bundlers don't pull in node modules.
+ *
+ * @param name Backend name, "auto" picks node backend when running in node.
+ * @returns Promise that resolves with backend.
+ */
+async function createBackend(name: BackendName): Promise<BackendInterface> {
+  if (name === "auto") {
+    name =
+      typeof process !== "undefined" && process.versions?.node
+        ? "node"
+        : "browser";
+  }
+
+  if (name === "node") {
+    const { NodeBackend } = await import("./NodeBackend");
+    return new NodeBackend();
+  }
+  return new BrowserBackend();
+}
+
+export { createBackend };
@@ -0,0 +1,49 @@
+import type { CodecInterface } from "../types";
+
+// Compression streams are not in TypeScript DOM lib yet.
+interface CompressionStreamInterface {
+  readonly readable: ReadableStream<Uint8Array>;
+  readonly writable: WritableStream<Uint8Array>;
+}
+declare const CompressionStream: new (
+  format: string
+) => CompressionStreamInterface;
+declare const DecompressionStream: new (
+  format: string
+) => CompressionStreamInterface;
+
+/**
+ * Codec using native CompressionStream.
+ *
+ * Output is compatible with ZlibCodec of the same id.
+ */
+class StreamCodec implements CodecInterface {
+  readonly id: "deflate" | "gzip";
+
+  constructor(id: "deflate" | "gzip") {
+    this.id = id;
+  }
+
+  async compress(data: Blob): Promise<Blob> {
+    const bytes = new Uint8Array(await data.arrayBuffer());
+    return new Blob([await this.pipe(new CompressionStream(this.id), bytes)]);
+  }
+
+  async decompress(data: Blob): Promise<Blob> {
+    const bytes = new Uint8Array(await data.arrayBuffer());
+    return new Blob([await this.pipe(new DecompressionStream(this.id), bytes)]);
+  }
+
+  protected async pipe(
+    stream: CompressionStreamInterface,
+    bytes: Uint8Array
+  ): Promise<ArrayBuffer> {
+    // Not awaited, writer waits until output is read. Errors surface there.
+    const writer = stream.writable.getWriter();
+    writer.write(bytes).catch(() => undefined);
+    writer.close().catch(() => undefined);
+    return new Response(stream.readable).arrayBuffer();
+  }
+}
+
+export { StreamCodec };
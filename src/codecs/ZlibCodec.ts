@@ -0,0 +1,69 @@
+import type { CodecInterface, ZlibCodecName } from "../types";
+import { Buffer } from "buffer";
+import {
+  brotliCompress,
+  brotliDecompress,
+  deflate,
+  gunzip,
+  gzip,
+  unzip,
+} from "node:zlib";
+
+type ZlibCallback = (err: Error | null, buffer: Buffer) => void;
+
+/**
+ * Codec using node:zlib.
+ */
+class ZlibCodec implements CodecInterface {
+  readonly id: ZlibCodecName;
+
+  constructor(id: ZlibCodecName) {
+    this.id = id;
+  }
+
+  async compress(data: Blob): Promise<Blob> {
+    const bufferData = Buffer.from(await data.arrayBuffer());
+    const buffer = await this.run(bufferData, (input, callback) => {
+      if (this.id === "gzip") {
+        gzip(input, callback);
+      } else if (this.id === "brotli") {
+        brotliCompress(input, callback);
+      } else {
+        deflate(input, callback);
+      }
+    });
+    return new Blob([buffer]);
+  }
+
+  async decompress(data: Blob): Promise<Blob> {
+    const bufferData = Buffer.from(await data.arrayBuffer());
+    const buffer = await this.run(bufferData, (input, callback) => {
+      if (this.id === "gzip") {
+        gunzip(input, callback);
+      } else if (this.id === "brotli") {
+        brotliDecompress(input, callback);
+      } else {
+        // Unzip detects both deflate and gzip headers.
+        unzip(input, callback);
+      }
+    });
+    return new Blob([buffer]);
+  }
+
+  protected run(
+    input: Buffer,
+    fn: (input: Buffer, callback: ZlibCallback) => void
+  ): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+      fn(input, (err: Error | null, buffer: Buffer) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(buffer);
+      });
+    });
+  }
+}
+
+export { ZlibCodec };
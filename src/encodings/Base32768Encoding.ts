@@ -0,0 +1,72 @@
+// tslint:disable:no-bitwise
+import type { SlotEncodingInterface, SlotUnitName } from "../types";
+
+// Every 15 bits are one character starting here, none of them is a surrogate.
+const blockStart = 0x1000;
+// Last character carrying at most 7 bits, so no extra byte is decoded.
+const tailStart = blockStart + 0x8000;
+
+/**
+ * Stores binary data densely in UTF-16, 15 bits per character.
+ *
+ * Denser than base64 only in slots measured in UTF-16 code units, each
+ * character is 3 bytes in UTF-8.
+ */
+class Base32768Encoding implements SlotEncodingInterface {
+  readonly id = "base32768";
+
+  encode(bytes: Uint8Array): string {
+    const codes: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+    for (const byte of Array.from(bytes)) {
+      buffer = (buffer << 8) | byte;
+      bits += 8;
+      if (bits >= 15) {
+        bits -= 15;
+        codes.push(blockStart + ((buffer >> bits) & 0x7fff));
+        buffer &= (1 << bits) - 1;
+      }
+    }
+    if (bits > 7) {
+      codes.push(blockStart + ((buffer << (15 - bits)) & 0x7fff));
+    } else if (bits > 0) {
+      codes.push(tailStart + ((buffer << (7 - bits)) & 0x7f));
+    }
+
+    let text = "";
+    for (let i = 0; i < codes.length; i += 0x8000) {
+      text += String.fromCharCode.apply(null, codes.slice(i, i + 0x8000));
+    }
+    return text;
+  }
+
+  decode(text: string): Uint8Array {
+    const bytes: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      if (code >= tailStart) {
+        buffer = (buffer << 7) | (code - tailStart);
+        bits += 7;
+      } else {
+        buffer = (buffer << 15) | (code - blockStart);
+        bits += 15;
+      }
+      while (bits >= 8) {
+        bits -= 8;
+        bytes.push((buffer >> bits) & 0xff);
+      }
+      buffer &= (1 << bits) - 1;
+    }
+    return new Uint8Array(bytes);
+  }
+
+  getCapacity(slotSize: number, slotCount: number, unit: SlotUnitName): number {
+    const chars = unit === "utf16" ? slotSize : Math.floor(slotSize / 3);
+    return Math.floor((chars * slotCount * 15) / 8);
+  }
+}
+
+export { Base32768Encoding };
@@ -0,0 +1,35 @@
+import type { SlotEncodingInterface } from "../types";
+
+/**
+ * Stores binary data as base64, 3 bytes in 4 ASCII characters.
+ */
+class Base64Encoding implements SlotEncodingInterface {
+  readonly id = "base64";
+
+  encode(bytes: Uint8Array): string {
+    // Chunked, so we don't exceed maximum number of function arguments.
+    let binary = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode.apply(
+        null,
+        Array.from(bytes.subarray(i, i + 0x8000))
+      );
+    }
+    return btoa(binary);
+  }
+
+  decode(text: string): Uint8Array {
+    const binary = atob(text);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  getCapacity(slotSize: number, slotCount: number): number {
+    return Math.floor((slotSize * slotCount) / 4) * 3;
+  }
+}
+
+export { Base64Encoding };
@@ -0,0 +1,24 @@
+import type { SlotEncodingInterface } from "../types";
+
+/**
+ * Stores UTF-8 text as it is. Only usable for uncompressed data.
+ */
+class RawEncoding implements SlotEncodingInterface {
+  readonly id = "raw";
+
+  encode(bytes: Uint8Array): string {
+    return new TextDecoder().decode(bytes);
+  }
+
+  decode(text: string): Uint8Array {
+    return new TextEncoder().encode(text);
+  }
+
+  getCapacity(slotSize: number, slotCount: number): number {
+    // Exact for ASCII without characters escaped in JSON, multi-byte
+    // characters are never split between slots.
+    return slotSize * slotCount;
+  }
+}
+
+export { RawEncoding };
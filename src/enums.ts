@@ -8,6 +8,8 @@ enum StorageStates {
   Idle = "idle",
   Uploading = "uploading",
   Downloading = "downloading",
+  // Nothing is running right now, but operations are waiting in queue.
+  Queued = "queued",
 }
 
 export { LastCompressStates, StorageStates };
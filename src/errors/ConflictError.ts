@@ -0,0 +1,9 @@
+/**
+ * Exception when other context changed stored data during write.
+ */
+export class ConflictError extends Error {
+  constructor(message = "Stored data were changed by other context.") {
+    super(message);
+    Object.setPrototypeOf(this, ConflictError.prototype);
+  }
+}
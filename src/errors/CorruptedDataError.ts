@@ -0,0 +1,25 @@
+/**
+ * Exception when stored data doesn't match its hash.
+ */
+export class CorruptedDataError extends Error {
+  readonly expectedHash: string | null;
+  readonly actualHash: string;
+  // Indexes of slots whose content doesn't match their hash.
+  readonly slots: number[];
+
+  constructor(
+    expectedHash: string | null,
+    actualHash: string,
+    slots: number[]
+  ) {
+    if (slots.length) {
+      super(`Stored data are corrupted in slots ${slots.join(", ")}.`);
+    } else {
+      super(`Stored data are corrupted.`);
+    }
+    Object.setPrototypeOf(this, CorruptedDataError.prototype);
+    this.expectedHash = expectedHash;
+    this.actualHash = actualHash;
+    this.slots = slots;
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Exception when stored data can't be decrypted.
+ */
+export class DecryptionError extends Error {
+  constructor(message = "Stored data can't be decrypted.") {
+    super(message);
+    Object.setPrototypeOf(this, DecryptionError.prototype);
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Exception when stored layout is newer than code can read.
+ */
+export class FormatVersionError extends Error {
+  readonly storedVersion: number;
+  readonly currentVersion: number;
+
+  constructor(storedVersion: number, currentVersion: number) {
+    super(
+      `Stored data have format version ${storedVersion}, but this version reads up to ${currentVersion}.`
+    );
+    Object.setPrototypeOf(this, FormatVersionError.prototype);
+    this.storedVersion = storedVersion;
+    this.currentVersion = currentVersion;
+  }
+}
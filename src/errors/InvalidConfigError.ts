@@ -0,0 +1,9 @@
+/**
+ * Exception when configuration can't work with the storage.
+ */
+export class InvalidConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, InvalidConfigError.prototype);
+  }
+}
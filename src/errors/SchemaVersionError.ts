@@ -0,0 +1,16 @@
+/**
+ * Exception when stored document has newer schema than code knows.
+ */
+export class SchemaVersionError extends Error {
+  readonly storedVersion: number;
+  readonly currentVersion: number;
+
+  constructor(storedVersion: number, currentVersion: number) {
+    super(
+      `Stored data have schema version ${storedVersion}, but the newest known is ${currentVersion}.`
+    );
+    Object.setPrototypeOf(this, SchemaVersionError.prototype);
+    this.storedVersion = storedVersion;
+    this.currentVersion = currentVersion;
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Exception when restored snapshot is not in history.
+ */
+export class SnapshotNotFoundError extends Error {
+  readonly id: number;
+
+  constructor(id: number) {
+    super(`Snapshot ${id} is not in history.`);
+    Object.setPrototypeOf(this, SnapshotNotFoundError.prototype);
+    this.id = id;
+  }
+}
@@ -1,15 +1,31 @@
 import { BlobStorageArea, BlobStorageConfig } from "./BlobStorageArea";
+import { NamespaceRegistry } from "./NamespaceRegistry";
+import { CompositeStorageArea } from "./CompositeStorageArea";
 import type {
   BlobStorageAreaInterface,
   BlobStorageConfigInterface,
+  CodecInterface,
+  CompositeStorageConfigInterface,
+  MigrationFunction,
+  SerializerInterface,
+  SetOptionsInterface,
+  SnapshotInfoValues,
 } from "./types";
 import { StorageStates, LastCompressStates } from "./enums";
 
 export {
   BlobStorageArea,
   BlobStorageConfig,
+  NamespaceRegistry,
+  CompositeStorageArea,
   BlobStorageAreaInterface,
   BlobStorageConfigInterface,
+  CodecInterface,
+  CompositeStorageConfigInterface,
+  MigrationFunction,
+  SerializerInterface,
+  SetOptionsInterface,
+  SnapshotInfoValues,
   StorageStates,
   LastCompressStates,
 };
@@ -0,0 +1,38 @@
+/**
+ * Reader of bytes one value after another.
+ */
+class ByteReader {
+  protected data: Uint8Array;
+  protected offset = 0;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+  }
+
+  uint(length: number): number {
+    const view = this.view(length);
+    if (length === 1) {
+      return view.getUint8(0);
+    }
+    return length === 2 ? view.getUint16(0) : view.getUint32(0);
+  }
+
+  text(length: number): string {
+    return new TextDecoder().decode(this.bytes(length));
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.offset + length > this.data.length) {
+      throw new RangeError("MessagePack data are truncated.");
+    }
+    this.offset += length;
+    return this.data.subarray(this.offset - length, this.offset);
+  }
+
+  view(length: number): DataView {
+    const bytes = this.bytes(length);
+    return new DataView(bytes.buffer, bytes.byteOffset, length);
+  }
+}
+
+export { ByteReader };
@@ -0,0 +1,38 @@
+/**
+ * Growing buffer of written bytes.
+ */
+class ByteWriter {
+  protected buffer = new Uint8Array(64);
+  protected length = 0;
+
+  byte(value: number): void {
+    this.reserve(1)[0] = value;
+  }
+
+  bytes(values: Uint8Array): void {
+    this.reserve(values.length).set(values);
+  }
+
+  view(length: number): DataView {
+    const bytes = this.reserve(length);
+    return new DataView(bytes.buffer, bytes.byteOffset, length);
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  protected reserve(length: number): Uint8Array {
+    if (this.length + length > this.buffer.length) {
+      const grown = new Uint8Array(
+        Math.max(this.buffer.length * 2, this.length + length)
+      );
+      grown.set(this.buffer.subarray(0, this.length));
+      this.buffer = grown;
+    }
+    this.length += length;
+    return this.buffer.subarray(this.length - length, this.length);
+  }
+}
+
+export { ByteWriter };
@@ -0,0 +1,19 @@
+import type { SerializerInterface } from "../types";
+
+/**
+ * Plain JSON, the same as chrome.storage stores values.
+ */
+class JsonSerializer implements SerializerInterface {
+  readonly id = "json";
+  readonly binary = false;
+
+  serialize(value: any): Uint8Array {
+    return new TextEncoder().encode(JSON.stringify(value));
+  }
+
+  deserialize(bytes: Uint8Array): any {
+    return JSON.parse(new TextDecoder().decode(bytes));
+  }
+}
+
+export { JsonSerializer };
@@ -0,0 +1,322 @@
+// tslint:disable:no-bitwise
+import type { SerializerInterface } from "../types";
+import { ByteReader } from "./ByteReader";
+import { ByteWriter } from "./ByteWriter";
+
+// BigInt is not in TypeScript ES5 lib.
+declare const BigInt: (value: string) => bigint;
+
+// Application specific extension types, Date uses standard timestamp (-1).
+const extBigInt = 1;
+const extArrayBuffer = 2;
+const extMap = 3;
+const extSet = 4;
+const extTimestamp = -1;
+
+/**
+ * Binary MessagePack format.
+ *
+ * Smaller than JSON for numbers and binary data. Uint8Array is stored as
+ * bin, Date as timestamp extension, BigInt, ArrayBuffer, Map and Set as
+ * application specific extensions.
+ */
+class MessagePackSerializer implements SerializerInterface {
+  readonly id = "msgpack";
+  readonly binary = true;
+
+  serialize(value: any): Uint8Array {
+    const writer = new ByteWriter();
+    this.encode(value, writer);
+    return writer.toBytes();
+  }
+
+  deserialize(bytes: Uint8Array): any {
+    const reader = new ByteReader(bytes);
+    return this.decode(reader);
+  }
+
+  protected encode(value: any, writer: ByteWriter): void {
+    if (value === null || value === undefined) {
+      writer.byte(0xc0);
+    } else if (value === false || value === true) {
+      writer.byte(value ? 0xc3 : 0xc2);
+    } else if (typeof value === "number") {
+      this.encodeNumber(value, writer);
+    } else if (typeof value === "string") {
+      const bytes = new TextEncoder().encode(value);
+      if (bytes.length < 32) {
+        writer.byte(0xa0 | bytes.length);
+      } else {
+        this.encodeLength(bytes.length, [0xd9, 0xda, 0xdb], writer);
+      }
+      writer.bytes(bytes);
+    } else if (typeof value === "bigint") {
+      this.encodeExt(
+        extBigInt,
+        new TextEncoder().encode(String(value)),
+        writer
+      );
+    } else if (value instanceof Date) {
+      this.encodeTimestamp(value, writer);
+    } else if (value instanceof Uint8Array) {
+      this.encodeLength(value.length, [0xc4, 0xc5, 0xc6], writer);
+      writer.bytes(value);
+    } else if (value instanceof ArrayBuffer) {
+      this.encodeExt(extArrayBuffer, new Uint8Array(value), writer);
+    } else if (value instanceof Map) {
+      const entries: any[] = [];
+      value.forEach((item, key) => entries.push(key, item));
+      this.encodeExt(extMap, this.serialize(entries), writer);
+    } else if (value instanceof Set) {
+      const items: any[] = [];
+      value.forEach((item) => items.push(item));
+      this.encodeExt(extSet, this.serialize(items), writer);
+    } else if (Array.isArray(value)) {
+      if (value.length < 16) {
+        writer.byte(0x90 | value.length);
+      } else {
+        this.encodeLength(value.length, [-1, 0xdc, 0xdd], writer);
+      }
+      for (const item of value) {
+        this.encode(item, writer);
+      }
+    } else if (typeof value === "object") {
+      // Undefined values are left out, as in JSON.
+      const keys = Object.keys(value).filter((key) => value[key] !== undefined);
+      if (keys.length < 16) {
+        writer.byte(0x80 | keys.length);
+      } else {
+        this.encodeLength(keys.length, [-1, 0xde, 0xdf], writer);
+      }
+      for (const key of keys) {
+        this.encode(key, writer);
+        this.encode(value[key], writer);
+      }
+    } else {
+      throw new TypeError(`Can't serialize ${typeof value}.`);
+    }
+  }
+
+  protected encodeNumber(value: number, writer: ByteWriter): void {
+    if (!Number.isInteger(value) || value < -0x80000000 || value > 0xffffffff) {
+      writer.byte(0xcb);
+      writer.view(8).setFloat64(0, value);
+    } else if (value >= 0 && value < 0x80) {
+      writer.byte(value);
+    } else if (value < 0 && value >= -0x20) {
+      writer.byte(value & 0xff);
+    } else if (value >= 0) {
+      if (value <= 0xff) {
+        writer.byte(0xcc);
+        writer.byte(value);
+      } else if (value <= 0xffff) {
+        writer.byte(0xcd);
+        writer.view(2).setUint16(0, value);
+      } else {
+        writer.byte(0xce);
+        writer.view(4).setUint32(0, value);
+      }
+    } else if (value >= -0x80) {
+      writer.byte(0xd0);
+      writer.view(1).setInt8(0, value);
+    } else if (value >= -0x8000) {
+      writer.byte(0xd1);
+      writer.view(2).setInt16(0, value);
+    } else {
+      writer.byte(0xd2);
+      writer.view(4).setInt32(0, value);
+    }
+  }
+
+  /**
+   * Writes type byte for 8, 16 or 32 bit length and the length itself.
+   */
+  protected encodeLength(
+    length: number,
+    types: [number, number, number],
+    writer: ByteWriter
+  ): void {
+    if (length <= 0xff && types[0] !== -1) {
+      writer.byte(types[0]);
+      writer.byte(length);
+    } else if (length <= 0xffff) {
+      writer.byte(types[1]);
+      writer.view(2).setUint16(0, length);
+    } else {
+      writer.byte(types[2]);
+      writer.view(4).setUint32(0, length);
+    }
+  }
+
+  protected encodeExt(
+    type: number,
+    data: Uint8Array,
+    writer: ByteWriter
+  ): void {
+    this.encodeLength(data.length, [0xc7, 0xc8, 0xc9], writer);
+    writer.byte(type & 0xff);
+    writer.bytes(data);
+  }
+
+  protected encodeTimestamp(value: Date, writer: ByteWriter): void {
+    // Timestamp 96, nanoseconds and 64 bit signed seconds.
+    const time = value.getTime();
+    const seconds = Math.floor(time / 1000);
+    const data = new ByteWriter();
+    data.view(4).setUint32(0, (time - seconds * 1000) * 1000000);
+    data.view(4).setInt32(0, Math.floor(seconds / 0x100000000));
+    data.view(4).setUint32(0, seconds >>> 0);
+    this.encodeExt(extTimestamp, data.toBytes(), writer);
+  }
+
+  protected decode(reader: ByteReader): any {
+    const type = reader.uint(1);
+    if (type < 0x80) {
+      return type;
+    } else if (type < 0x90) {
+      return this.decodeMap(type & 0x0f, reader);
+    } else if (type < 0xa0) {
+      return this.decodeArray(type & 0x0f, reader);
+    } else if (type < 0xc0) {
+      return reader.text(type & 0x1f);
+    } else if (type >= 0xe0) {
+      return type - 0x100;
+    }
+
+    switch (type) {
+      case 0xc0:
+        return null;
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc4:
+      case 0xc5:
+      case 0xc6:
+        return reader.bytes(reader.uint(1 << (type - 0xc4))).slice();
+      case 0xc7:
+      case 0xc8:
+      case 0xc9:
+        return this.decodeExt(reader.uint(1 << (type - 0xc7)), reader);
+      case 0xca:
+        return reader.view(4).getFloat32(0);
+      case 0xcb:
+        return reader.view(8).getFloat64(0);
+      case 0xcc:
+      case 0xcd:
+      case 0xce:
+        return reader.uint(1 << (type - 0xcc));
+      case 0xcf:
+        return this.decodeInt64(reader, false);
+      case 0xd0:
+        return reader.view(1).getInt8(0);
+      case 0xd1:
+        return reader.view(2).getInt16(0);
+      case 0xd2:
+        return reader.view(4).getInt32(0);
+      case 0xd3:
+        return this.decodeInt64(reader, true);
+      case 0xd4:
+      case 0xd5:
+      case 0xd6:
+      case 0xd7:
+      case 0xd8:
+        return this.decodeExt(1 << (type - 0xd4), reader);
+      case 0xd9:
+      case 0xda:
+      case 0xdb:
+        return reader.text(reader.uint(1 << (type - 0xd9)));
+      case 0xdc:
+      case 0xdd:
+        return this.decodeArray(reader.uint(2 << (type - 0xdc)), reader);
+      case 0xde:
+      case 0xdf:
+        return this.decodeMap(reader.uint(2 << (type - 0xde)), reader);
+    }
+    throw new TypeError(`Unknown MessagePack type 0x${type.toString(16)}.`);
+  }
+
+  protected decodeArray(length: number, reader: ByteReader): any[] {
+    const items = [];
+    for (let i = 0; i < length; i++) {
+      items.push(this.decode(reader));
+    }
+    return items;
+  }
+
+  protected decodeMap(
+    length: number,
+    reader: ByteReader
+  ): { [key: string]: any } {
+    const json: { [key: string]: any } = {};
+    for (let i = 0; i < length; i++) {
+      const key = this.decode(reader);
+      json[key] = this.decode(reader);
+    }
+    return json;
+  }
+
+  protected decodeExt(length: number, reader: ByteReader): any {
+    const type = reader.view(1).getInt8(0);
+    const data = reader.bytes(length);
+    switch (type) {
+      case extBigInt:
+        return BigInt(new TextDecoder().decode(data));
+      case extArrayBuffer:
+        return data.slice().buffer;
+      case extMap:
+        return this.decodeMapExt(this.deserialize(data));
+      case extSet:
+        return new Set(this.deserialize(data));
+      case extTimestamp:
+        return this.decodeTimestamp(data);
+    }
+    throw new TypeError(`Unknown MessagePack extension ${type}.`);
+  }
+
+  protected decodeMapExt(entries: any[]): Map<any, any> {
+    const map = new Map();
+    for (let i = 0; i < entries.length; i += 2) {
+      map.set(entries[i], entries[i + 1]);
+    }
+    return map;
+  }
+
+  protected decodeTimestamp(data: Uint8Array): Date {
+    const view = new DataView(data.buffer, data.byteOffset, data.length);
+    if (data.length === 4) {
+      return new Date(view.getUint32(0) * 1000);
+    }
+    if (data.length === 8) {
+      // 30 bit nanoseconds and 34 bit seconds.
+      const high = view.getUint32(0);
+      const low = (high & 0x3) * 0x100000000 + view.getUint32(4);
+      return new Date(low * 1000 + (high >>> 2) / 1000000);
+    }
+    const nanoseconds = view.getUint32(0);
+    const seconds = view.getInt32(4) * 0x100000000 + view.getUint32(8);
+    return new Date(seconds * 1000 + nanoseconds / 1000000);
+  }
+
+  protected decodeInt64(reader: ByteReader, signed: boolean): number | bigint {
+    const view = reader.view(8);
+    const high = signed ? view.getInt32(0) : view.getUint32(0);
+    const value = high * 0x100000000 + view.getUint32(4);
+    if (Number.isSafeInteger(value)) {
+      return value;
+    }
+    // Too big for number, two's complement is turned into magnitude.
+    const negative = high < 0;
+    let hi = view.getUint32(0);
+    let lo = view.getUint32(4);
+    if (negative) {
+      lo = (~lo + 1) >>> 0;
+      hi = (~hi + (lo === 0 ? 1 : 0)) >>> 0;
+    }
+    const hex =
+      "0x" + hi.toString(16) + ("0000000" + lo.toString(16)).slice(-8);
+    return negative ? BigInt("-" + BigInt(hex)) : BigInt(hex);
+  }
+}
+
+export { MessagePackSerializer };
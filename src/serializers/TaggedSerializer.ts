@@ -0,0 +1,102 @@
+import type { SerializerInterface } from "../types";
+import { Base64Encoding } from "../encodings/Base64Encoding";
+
+// BigInt is not in TypeScript ES5 lib.
+declare const BigInt: (value: string) => bigint;
+
+/**
+ * JSON with tags for values plain JSON can't represent.
+ *
+ * Tagged value is {"$type": "Date", "value": ...}. Date, Map, Set,
+ * Uint8Array, ArrayBuffer and BigInt are tagged, plain objects having
+ * "$type" key are tagged as "Object", so they are not mistaken for tags.
+ */
+class TaggedSerializer implements SerializerInterface {
+  readonly id = "tagged";
+  readonly binary = false;
+  protected base64 = new Base64Encoding();
+
+  serialize(value: any): Uint8Array {
+    return new TextEncoder().encode(JSON.stringify(this.tag(value)));
+  }
+
+  deserialize(bytes: Uint8Array): any {
+    return this.untag(JSON.parse(new TextDecoder().decode(bytes)));
+  }
+
+  protected tag(value: any): any {
+    if (typeof value === "bigint") {
+      return { $type: "BigInt", value: String(value) };
+    } else if (value instanceof Date) {
+      // Invalid date is NaN, which JSON stores as null.
+      return { $type: "Date", value: value.getTime() };
+    } else if (value instanceof Map) {
+      const entries: any[] = [];
+      value.forEach((item, key) => {
+        entries.push([this.tag(key), this.tag(item)]);
+      });
+      return { $type: "Map", value: entries };
+    } else if (value instanceof Set) {
+      const items: any[] = [];
+      value.forEach((item) => items.push(this.tag(item)));
+      return { $type: "Set", value: items };
+    } else if (value instanceof Uint8Array) {
+      return { $type: "Uint8Array", value: this.base64.encode(value) };
+    } else if (value instanceof ArrayBuffer) {
+      const bytes = new Uint8Array(value);
+      return { $type: "ArrayBuffer", value: this.base64.encode(bytes) };
+    } else if (Array.isArray(value)) {
+      return value.map((item) => this.tag(item));
+    } else if (value !== null && typeof value === "object") {
+      const tagged: { [key: string]: any } = {};
+      for (const key of Object.keys(value)) {
+        tagged[key] = this.tag(value[key]);
+      }
+      return "$type" in value ? { $type: "Object", value: tagged } : tagged;
+    }
+    return value;
+  }
+
+  protected untag(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.untag(item));
+    } else if (value === null || typeof value !== "object") {
+      return value;
+    }
+
+    switch (value.$type) {
+      case "BigInt":
+        return BigInt(value.value);
+      case "Date":
+        return new Date(value.value ?? NaN);
+      case "Map":
+        return new Map(
+          value.value.map((entry: any[]) => [
+            this.untag(entry[0]),
+            this.untag(entry[1]),
+          ])
+        );
+      case "Set":
+        return new Set(value.value.map((item: any) => this.untag(item)));
+      case "Uint8Array":
+        return this.base64.decode(value.value);
+      case "ArrayBuffer":
+        return this.base64.decode(value.value).buffer;
+      case "Object":
+        return this.untagObject(value.value);
+    }
+    return this.untagObject(value);
+  }
+
+  protected untagObject(value: { [key: string]: any }): {
+    [key: string]: any;
+  } {
+    const untagged: { [key: string]: any } = {};
+    for (const key of Object.keys(value)) {
+      untagged[key] = this.untag(value[key]);
+    }
+    return untagged;
+  }
+}
+
+export { TaggedSerializer };
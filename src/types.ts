@@ -1,5 +1,166 @@
 import { LastCompressStates, StorageStates } from "./enums";
 import StorageArea = chrome.storage.StorageArea;
+import StorageChange = chrome.storage.StorageChange;
+
+/**
+ * Names of built-in compression codecs.
+ */
+type ZlibCodecName = "deflate" | "gzip" | "brotli";
+type CodecName = ZlibCodecName | "none";
+
+/**
+ * Compression codec.
+ *
+ * Compressed data are binary, they are turned into text by slot encoding.
+ * Id is stored in meta, so data can be decompressed by the same codec later.
+ */
+interface CodecInterface {
+  readonly id: string;
+  compress(data: Blob): Promise<Blob>;
+  decompress(data: Blob): Promise<Blob>;
+}
+
+/**
+ * Names of slot encodings, "auto" is raw for uncompressed data, and base64,
+ * or base32768 when slots are measured in UTF-16, for compressed data.
+ */
+type SlotEncodingName = "auto" | "raw" | "base64" | "base32768";
+
+/**
+ * How storage measures size of strings, in UTF-8 bytes like
+ * chrome.storage does, or in UTF-16 code units like localStorage does.
+ */
+type SlotUnitName = "utf8" | "utf16";
+
+/**
+ * Encoding of binary data into text stored in slots.
+ */
+interface SlotEncodingInterface {
+  readonly id: string;
+  encode(bytes: Uint8Array): string;
+  decode(text: string): Uint8Array;
+  // How many bytes of data fit into slots measured in given unit.
+  getCapacity(slotSize: number, slotCount: number, unit: SlotUnitName): number;
+}
+
+/**
+ * Names of built-in serializers.
+ */
+type SerializerName = "json" | "tagged" | "msgpack";
+
+/**
+ * Serializer of stored document.
+ *
+ * Id is stored in meta, so data can be deserialized by the same one later.
+ */
+interface SerializerInterface {
+  readonly id: string;
+  // Binary output can't be stored by raw slot encoding.
+  readonly binary: boolean;
+  serialize(value: any): Uint8Array;
+  deserialize(bytes: Uint8Array): any;
+}
+
+/**
+ * Names of backends, "auto" selects one by environment.
+ */
+type BackendName = "auto" | "node" | "browser";
+
+/**
+ * Which keys are evicted first when data don't fit: least recently used,
+ * lowest priority or oldest written. None throws TooLargeDataError.
+ */
+type EvictionPolicyName = "none" | "lru" | "priority" | "oldest";
+
+/**
+ * Environment specific implementation of hashing and compression.
+ */
+interface BackendInterface {
+  readonly id: string;
+  // Stored in meta, hashes of other algorithm can't be verified.
+  readonly hashAlgorithm: string;
+  hash(data: string): Promise<string>;
+  createCodec(id: ZlibCodecName): CodecInterface;
+}
+
+/**
+ * Encryption config, either key or passphrase has to be given.
+ */
+interface EncryptionConfigInterface {
+  // AES-GCM key usable for encrypt and decrypt.
+  key?: CryptoKey;
+  // Key is derived from it by PBKDF2.
+  passphrase?: string;
+  iterations?: number;
+}
+
+/**
+ * Parameters of encrypted data stored in meta.
+ */
+interface EncryptionMetaValues {
+  algorithm: "AES-GCM";
+  iv: string;
+  kdf: "PBKDF2" | null;
+  salt: string | null;
+  iterations: number | null;
+}
+
+/**
+ * Lease of lock stored in underlying storage.
+ */
+interface LockLeaseValues {
+  // Random id given to acquire() call holding lease.
+  owner: string;
+  // Timestamp after which lease can be taken over.
+  expires: number;
+}
+
+/**
+ * Timestamps of stored keys, e.g. when they expire.
+ */
+interface KeyTimestampValues {
+  [key: string]: number;
+}
+
+/**
+ * Options of BlobStorageArea::set().
+ */
+interface SetOptionsInterface {
+  // Milliseconds after which all set items, or only listed keys, expire.
+  ttl?: number | { [key: string]: number };
+}
+
+/**
+ * Snapshot of previous stored document.
+ */
+interface SnapshotInfoValues {
+  // Grows with every snapshot, the newest one has the highest.
+  id: number;
+  // Last update and hash of snapshotted document.
+  lastUpdated: number | null;
+  hash: string | null;
+}
+
+/**
+ * Snapshot as kept in index of snapshot history.
+ */
+interface SnapshotMetaValues extends SnapshotInfoValues {
+  codec: string;
+  serializer: string;
+  // Null when snapshot is not encrypted.
+  encryption: EncryptionMetaValues | null;
+}
+
+/**
+ * Limits of underlying storage, the same as constants of chrome.storage.sync.
+ *
+ * Missing limits are not enforced.
+ */
+interface StorageLimitsInterface {
+  QUOTA_BYTES: number;
+  QUOTA_BYTES_PER_ITEM?: number;
+  MAX_ITEMS?: number;
+}
 
 /**
  * Blob storage config.
@@ -11,9 +172,48 @@ interface BlobStorageConfigInterface {
   slotCount: number;
   storage: StorageArea | undefined;
   compress: boolean;
+  codec: CodecName | CodecInterface;
+  backend: BackendName;
+  slotEncoding: SlotEncodingName;
+  slotUnit: SlotUnitName;
+  serializer: SerializerName | SerializerInterface;
+  limits: StorageLimitsInterface | undefined;
+  autoSlots: boolean;
+  encryption: EncryptionConfigInterface | undefined;
+  namespace: string | undefined;
+  sharedQuota: number | undefined;
+  migrations: MigrationFunction[];
+  conflictRetries: number;
+  lock: boolean;
+  lockLease: number;
+  batchDelay: number;
+  batchMaxDelay: number;
+  keyIndex: boolean;
+  eviction: EvictionPolicyName;
+  priorities: { [key: string]: number };
+  protectedKeys: string[];
+  onEvict: ((keys: string[]) => void) | undefined;
+  snapshots: number;
+  snapshotStorage: StorageArea | undefined;
   debugLog: boolean;
   disableDummyWarning: boolean;
   id: string | undefined;
+  fallbackToCache: boolean;
+}
+
+/**
+ * Migration of stored document to the next schema version.
+ */
+type MigrationFunction = (data: {
+  [key: string]: any;
+}) => { [key: string]: any } | Promise<{ [key: string]: any }>;
+
+/**
+ * Where value of each top-level key is stored: first slot, last slot,
+ * offset in first slot and length, in characters.
+ */
+interface KeyIndexValues {
+  [key: string]: [number, number, number, number];
 }
 
 /**
@@ -24,6 +224,57 @@ interface MetaValues {
   hashPreCompress: string | null;
   lastUpdated: number | null;
   lastCompressState: LastCompressStates;
+  // Id of codec stored data are compressed with. Legacy meta means deflate.
+  codec?: string | null;
+  // Id of slot encoding. Legacy meta means base64 if compressed, else raw.
+  slotEncoding?: string;
+  // Null when stored data are not encrypted.
+  encryption?: EncryptionMetaValues | null;
+  // Algorithm of all hashes. Legacy meta means md5.
+  hashAlgorithm?: string;
+  // Short hash of each used slot, so only changed slots are rewritten.
+  slotHashes?: string[];
+  // Token of write which wrote each used slot, it's part of slot key.
+  // Legacy meta means slot keys without token.
+  slotTokens?: string[];
+  // Schema of stored document, number of migrations applied. Legacy meta means 0.
+  schemaVersion?: number;
+  // Layout of meta and slots. Legacy meta means 1.
+  formatVersion?: number;
+  // Geometry data were written with. Legacy meta means configured one.
+  slotSize?: number;
+  slotCount?: number;
+  // Null when stored data are not plain text or index doesn't fit.
+  keyIndex?: KeyIndexValues | null;
+  // Id of serializer of stored document. Legacy meta means json.
+  serializer?: string;
+  // Expiry timestamps of keys set with TTL. Legacy meta means none.
+  expiry?: KeyTimestampValues;
+  // When keys were written and read, null when eviction doesn't need them.
+  written?: KeyTimestampValues | null;
+  accessed?: KeyTimestampValues | null;
+}
+
+/**
+ * Timestamps of keys written together with stored document.
+ */
+type KeyTimesValues = Pick<MetaValues, "expiry" | "written">;
+
+/**
+ * Listener of onChanged event.
+ */
+type StorageChangedListener = (changes: {
+  [key: string]: StorageChange;
+}) => void;
+
+/**
+ * Event object of onChanged, the same shape as in chrome.events.Event.
+ */
+interface StorageChangedEventInterface {
+  addListener(callback: StorageChangedListener): void;
+  removeListener(callback: StorageChangedListener): void;
+  hasListener(callback: StorageChangedListener): boolean;
+  hasListeners(): boolean;
 }
 
 /**
@@ -37,20 +288,64 @@ interface MetaValues {
  * should accordingly make data smaller and try to set() again.
  */
 interface BlobStorageAreaInterface extends StorageArea {
+  onChanged: StorageChangedEventInterface;
   // create(): Promise<BlobStorageAreaInterface>;
   getMaxCapacity(): Promise<number>;
+  fits(json: { [key: string]: any }): Promise<boolean>;
   getCurrentUsed(live: boolean): Promise<number>;
   getState(): StorageStates;
+  flush(): Promise<void>;
   isUpToDate(): Promise<boolean>;
   getHash(): null | string;
   getPreCompressHash(): null | string;
   getLastUpdated(): null | number;
-  calculateHash(data: string): string;
+  calculateHash(data: string): Promise<string>;
   getLastCompressState(): LastCompressStates;
+  getLastCodec(): null | string;
+  getSchemaVersion(): number;
+  purgeExpired(): Promise<string[]>;
+  listSnapshots(): Promise<SnapshotInfoValues[]>;
+  restoreSnapshot(id: number): Promise<void>;
+}
+
+/**
+ * Configuration of storage spread over primary and overflow blob storages.
+ */
+interface CompositeStorageConfigInterface {
+  // Must not use eviction, or keys are dropped instead of spilled.
+  primary: BlobStorageAreaInterface;
+  overflow: BlobStorageAreaInterface;
+  // Keys with higher priority stay in primary storage, default is 0.
+  priorities?: { [key: string]: number };
 }
 
 export type {
+  BackendInterface,
+  BackendName,
+  CodecInterface,
+  CodecName,
+  CompositeStorageConfigInterface,
+  EncryptionConfigInterface,
+  EncryptionMetaValues,
+  EvictionPolicyName,
+  KeyIndexValues,
+  KeyTimesValues,
+  KeyTimestampValues,
+  ZlibCodecName,
   BlobStorageAreaInterface,
   BlobStorageConfigInterface,
+  LockLeaseValues,
   MetaValues,
+  MigrationFunction,
+  SerializerInterface,
+  SerializerName,
+  SetOptionsInterface,
+  SlotEncodingInterface,
+  SlotEncodingName,
+  SlotUnitName,
+  SnapshotInfoValues,
+  SnapshotMetaValues,
+  StorageChangedListener,
+  StorageLimitsInterface,
+  StorageChangedEventInterface,
 };